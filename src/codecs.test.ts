@@ -0,0 +1,156 @@
+import { test, expect, describe } from "bun:test";
+import {
+  AVAILABLE_CODECS,
+  resolveCodec,
+  resolveOutputPath,
+  codecSupportsAudio,
+  getOutputFilter,
+  getEncoderArgs,
+  getAudioEncoderArgs,
+  getContainerArgs,
+  ENCODING_PRESETS,
+  HEVC_PRESETS,
+  VP9_PRESETS,
+  AV1_PRESETS,
+} from "./codecs";
+
+describe("Output Codecs", () => {
+  describe("resolveCodec", () => {
+    test("picks the codec from the output extension", () => {
+      expect(resolveCodec("out.mp4")).toBe("h264");
+      expect(resolveCodec("out.MOV")).toBe("h264");
+      expect(resolveCodec("out.mkv")).toBe("hevc");
+      expect(resolveCodec("out.webm")).toBe("vp9");
+      expect(resolveCodec("out.gif")).toBe("gif");
+      expect(resolveCodec("out.webp")).toBe("webp");
+      expect(resolveCodec("frames/out.png")).toBe("png");
+    });
+
+    test("falls back to h264 for unknown extensions", () => {
+      expect(resolveCodec("out.avi")).toBe("h264");
+      expect(resolveCodec("out")).toBe("h264");
+    });
+
+    test("prefers an explicit codec", () => {
+      expect(resolveCodec("out.webm", "av1")).toBe("av1");
+      expect(resolveCodec("out.mp4", "hevc")).toBe("hevc");
+    });
+
+    test("rejects image codecs with a mismatched extension", () => {
+      expect(() => resolveCodec("out.mp4", "gif")).toThrow(/requires a \.gif output/);
+      expect(() => resolveCodec("out.gif", "png")).toThrow();
+    });
+
+    test("rejects video codecs in a container that can't hold them", () => {
+      expect(() => resolveCodec("out.webm", "hevc")).toThrow("Codec 'hevc' requires a .mp4, .mov, .m4v or .mkv output (got 'out.webm')");
+      expect(() => resolveCodec("out.webm", "h264")).toThrow(/requires a/);
+      expect(() => resolveCodec("out.mov", "vp9")).toThrow("Codec 'vp9' requires a .webm, .mkv or .mp4 output");
+      expect(() => resolveCodec("out.gif", "av1")).toThrow(/requires a/);
+      expect(resolveCodec("out.MKV", "vp9")).toBe("vp9");
+      expect(resolveCodec("out.mp4", "av1")).toBe("av1");
+    });
+  });
+
+  describe("resolveOutputPath", () => {
+    test("adds a frame number pattern to PNG sequences", () => {
+      expect(resolveOutputPath("frames/out.png", "png")).toBe("frames/out_%05d.png");
+    });
+
+    test("keeps an existing pattern", () => {
+      expect(resolveOutputPath("frame_%03d.png", "png")).toBe("frame_%03d.png");
+    });
+
+    test("leaves video outputs unchanged", () => {
+      expect(resolveOutputPath("out.mp4", "h264")).toBe("out.mp4");
+    });
+  });
+
+  test("only video containers carry audio", () => {
+    expect(codecSupportsAudio("h264")).toBe(true);
+    expect(codecSupportsAudio("vp9")).toBe(true);
+    expect(codecSupportsAudio("gif")).toBe(false);
+    expect(codecSupportsAudio("webp")).toBe(false);
+    expect(codecSupportsAudio("png")).toBe(false);
+  });
+
+  describe("getEncoderArgs", () => {
+    const encoder = (args: string[]) => args[args.indexOf("-c:v") + 1];
+
+    test("uses the matching encoder for each codec", () => {
+      expect(encoder(getEncoderArgs("h264", "balanced"))).toBe("libx264");
+      expect(encoder(getEncoderArgs("hevc", "balanced"))).toBe("libx265");
+      expect(encoder(getEncoderArgs("vp9", "balanced"))).toBe("libvpx-vp9");
+      expect(encoder(getEncoderArgs("av1", "balanced"))).toBe("libsvtav1");
+      expect(encoder(getEncoderArgs("gif", "balanced"))).toBe("gif");
+      expect(encoder(getEncoderArgs("webp", "balanced"))).toBe("libwebp");
+      expect(encoder(getEncoderArgs("png", "balanced"))).toBe("png");
+    });
+
+    test("uses NVENC only for h264 and hevc", () => {
+      expect(encoder(getEncoderArgs("h264", "fast", true))).toBe("h264_nvenc");
+      expect(encoder(getEncoderArgs("hevc", "fast", true))).toBe("hevc_nvenc");
+      expect(encoder(getEncoderArgs("vp9", "fast", true))).toBe("libvpx-vp9");
+    });
+
+    test("translates preset tiers to each codec's CRF scale", () => {
+      const crf = (args: string[]) => Number(args[args.indexOf("-crf") + 1]);
+      expect(crf(getEncoderArgs("h264", "balanced"))).toBe(ENCODING_PRESETS.balanced.crf);
+      expect(crf(getEncoderArgs("hevc", "balanced"))).toBe(HEVC_PRESETS.balanced.crf);
+      expect(crf(getEncoderArgs("vp9", "balanced"))).toBe(VP9_PRESETS.balanced.crf);
+      expect(crf(getEncoderArgs("av1", "balanced"))).toBe(AV1_PRESETS.balanced.crf);
+    });
+
+    test("higher tiers never lower quality", () => {
+      const tiers = ["ultrafast", "fast", "balanced", "quality", "best"] as const;
+      for (const presets of [ENCODING_PRESETS, HEVC_PRESETS, VP9_PRESETS, AV1_PRESETS]) {
+        const crfs = tiers.map(t => presets[t].crf);
+        expect([...crfs].sort((a, b) => b - a)).toEqual(crfs);
+      }
+    });
+
+    test("VP9 runs in constant quality mode", () => {
+      const args = getEncoderArgs("vp9", "quality");
+      expect(args[args.indexOf("-b:v") + 1]).toBe("0");
+    });
+
+    test("animated image formats loop forever", () => {
+      expect(getEncoderArgs("gif", "balanced")).toContain("-loop");
+      expect(getEncoderArgs("webp", "balanced")).toContain("-loop");
+    });
+  });
+
+  describe("getOutputFilter", () => {
+    test("builds a palette for GIF output", () => {
+      const filter = getOutputFilter("gif", "balanced");
+      expect(filter).toContain("palettegen=max_colors=256");
+      expect(filter).toContain("paletteuse=dither=sierra2_4a");
+    });
+
+    test("uses fewer colors at faster tiers", () => {
+      expect(getOutputFilter("gif", "ultrafast")).toContain("max_colors=64");
+    });
+
+    test("is empty for other codecs", () => {
+      expect(getOutputFilter("h264", "balanced")).toBe("");
+      expect(getOutputFilter("webp", "balanced")).toBe("");
+    });
+  });
+
+  test("uses Opus in WebM and AAC elsewhere", () => {
+    expect(getAudioEncoderArgs("vp9")).toContain("libopus");
+    expect(getAudioEncoderArgs("av1")).toContain("libopus");
+    expect(getAudioEncoderArgs("h264")).toContain("aac");
+    expect(getAudioEncoderArgs("hevc")).toContain("aac");
+  });
+
+  test("adds faststart only for MP4-family containers", () => {
+    expect(getContainerArgs("out.mp4")).toEqual(["-movflags", "+faststart"]);
+    expect(getContainerArgs("out.mov")).toEqual(["-movflags", "+faststart"]);
+    expect(getContainerArgs("out.webm")).toEqual([]);
+    expect(getContainerArgs("out.mkv")).toEqual([]);
+  });
+
+  test("lists every codec", () => {
+    expect(AVAILABLE_CODECS).toEqual(["h264", "hevc", "vp9", "av1", "gif", "webp", "png"]);
+  });
+});
@@ -0,0 +1,265 @@
+/**
+ * Output codecs and containers
+ *
+ * Maps each output format to its encoder arguments, with the encoding
+ * preset tiers translated to the quality scale of that codec (CRF ranges
+ * differ between x264, x265, VP9 and AV1; GIF and WebP use other knobs).
+ */
+
+import path from "path";
+
+export type OutputCodec = "h264" | "hevc" | "vp9" | "av1" | "gif" | "webp" | "png";
+
+export const AVAILABLE_CODECS: OutputCodec[] = ["h264", "hevc", "vp9", "av1", "gif", "webp", "png"];
+
+// Encoding presets for different quality/speed tradeoffs (x264)
+export const ENCODING_PRESETS = {
+  ultrafast: { preset: "ultrafast", crf: 28 },
+  fast: { preset: "veryfast", crf: 26 },
+  balanced: { preset: "medium", crf: 23 },
+  quality: { preset: "slow", crf: 20 },
+  best: { preset: "veryslow", crf: 18 },
+} as const;
+
+// NVENC presets (p1=fastest, p7=slowest/best quality)
+export const NVENC_PRESETS = {
+  ultrafast: { preset: "p1", cq: 30 },
+  fast: { preset: "p2", cq: 26 },
+  balanced: { preset: "p4", cq: 23 },
+  quality: { preset: "p6", cq: 20 },
+  best: { preset: "p7", cq: 18 },
+} as const;
+
+export type EncodingPreset = keyof typeof ENCODING_PRESETS;
+
+// x265 CRF runs about 5 higher than x264 for the same visual quality
+export const HEVC_PRESETS = {
+  ultrafast: { preset: "ultrafast", crf: 30 },
+  fast: { preset: "veryfast", crf: 28 },
+  balanced: { preset: "medium", crf: 26 },
+  quality: { preset: "slow", crf: 23 },
+  best: { preset: "veryslow", crf: 21 },
+} as const;
+
+// libvpx-vp9 constant quality mode (CRF 0-63)
+export const VP9_PRESETS = {
+  ultrafast: { deadline: "realtime", cpuUsed: 8, crf: 40 },
+  fast: { deadline: "good", cpuUsed: 5, crf: 36 },
+  balanced: { deadline: "good", cpuUsed: 2, crf: 32 },
+  quality: { deadline: "good", cpuUsed: 1, crf: 28 },
+  best: { deadline: "best", cpuUsed: 0, crf: 24 },
+} as const;
+
+// SVT-AV1 (CRF 0-63, preset 0=slowest to 13=fastest)
+export const AV1_PRESETS = {
+  ultrafast: { preset: 12, crf: 40 },
+  fast: { preset: 10, crf: 36 },
+  balanced: { preset: 8, crf: 32 },
+  quality: { preset: 6, crf: 28 },
+  best: { preset: 4, crf: 24 },
+} as const;
+
+// GIF palette size and dithering
+export const GIF_PRESETS = {
+  ultrafast: { colors: 64, dither: "none" },
+  fast: { colors: 128, dither: "bayer" },
+  balanced: { colors: 256, dither: "sierra2_4a" },
+  quality: { colors: 256, dither: "floyd_steinberg" },
+  best: { colors: 256, dither: "floyd_steinberg" },
+} as const;
+
+// Animated WebP lossy quality (0-100) and compression effort (0-6)
+export const WEBP_PRESETS = {
+  ultrafast: { quality: 60, compression: 0 },
+  fast: { quality: 70, compression: 2 },
+  balanced: { quality: 80, compression: 4 },
+  quality: { quality: 90, compression: 5 },
+  best: { quality: 95, compression: 6 },
+} as const;
+
+// PNG zlib compression level (0-9); output is lossless at every tier
+export const PNG_PRESETS = {
+  ultrafast: { compression: 1 },
+  fast: { compression: 3 },
+  balanced: { compression: 6 },
+  quality: { compression: 8 },
+  best: { compression: 9 },
+} as const;
+
+const EXTENSION_CODECS: Record<string, OutputCodec> = {
+  ".mp4": "h264",
+  ".mov": "h264",
+  ".m4v": "h264",
+  ".mkv": "hevc",
+  ".webm": "vp9",
+  ".gif": "gif",
+  ".webp": "webp",
+  ".png": "png",
+};
+
+// Image formats are tied to their own container
+const IMAGE_CODEC_EXTENSIONS: Partial<Record<OutputCodec, string>> = {
+  gif: ".gif",
+  webp: ".webp",
+  png: ".png",
+};
+
+// Containers each codec can be written to
+const CODEC_EXTENSIONS: Record<OutputCodec, string[]> = {
+  h264: [".mp4", ".mov", ".m4v", ".mkv"],
+  hevc: [".mp4", ".mov", ".m4v", ".mkv"],
+  vp9: [".webm", ".mkv", ".mp4"],
+  av1: [".webm", ".mkv", ".mp4"],
+  gif: [".gif"],
+  webp: [".webp"],
+  png: [".png"],
+};
+
+/**
+ * Pick the codec from an explicit setting or the output file extension
+ */
+export function resolveCodec(output: string, codec?: OutputCodec): OutputCodec {
+  const ext = path.extname(output).toLowerCase();
+
+  if (codec) {
+    const allowed = CODEC_EXTENSIONS[codec];
+    if (!allowed.includes(ext)) {
+      const list = allowed.length > 1 ? `${allowed.slice(0, -1).join(", ")} or ${allowed[allowed.length - 1]}` : allowed[0];
+      throw new Error(`Codec '${codec}' requires a ${list} output (got '${output}')`);
+    }
+    return codec;
+  }
+
+  return EXTENSION_CODECS[ext] || "h264";
+}
+
+/**
+ * Whether the codec's container can carry an audio track
+ */
+export function codecSupportsAudio(codec: OutputCodec): boolean {
+  return !IMAGE_CODEC_EXTENSIONS[codec];
+}
+
+/**
+ * Resolve the path ffmpeg writes to. PNG sequences need a frame number
+ * pattern, which is added before the extension when missing.
+ */
+export function resolveOutputPath(output: string, codec: OutputCodec): string {
+  if (codec === "png" && !output.includes("%")) {
+    const ext = path.extname(output);
+    return `${output.slice(0, -ext.length)}_%05d${ext}`;
+  }
+  return output;
+}
+
+/**
+ * Get the filter chain applied to the final video before encoding.
+ * GIF output builds an optimized palette from the whole clip.
+ */
+export function getOutputFilter(codec: OutputCodec, preset: EncodingPreset): string {
+  if (codec === "gif") {
+    const { colors, dither } = GIF_PRESETS[preset] || GIF_PRESETS.balanced;
+    return `split[gif_a][gif_b];[gif_a]palettegen=max_colors=${colors}:stats_mode=diff[gif_pal];[gif_b][gif_pal]paletteuse=dither=${dither}`;
+  }
+  return "";
+}
+
+/**
+ * Get encoder arguments for a codec and preset tier.
+ * NVENC is used for H.264/HEVC when requested; other codecs always
+ * encode on the CPU.
+ */
+export function getEncoderArgs(codec: OutputCodec, preset: EncodingPreset, useNvenc: boolean = false): string[] {
+  switch (codec) {
+    case "hevc": {
+      if (useNvenc) {
+        const settings = NVENC_PRESETS[preset] || NVENC_PRESETS.balanced;
+        return ["-c:v", "hevc_nvenc", "-preset", settings.preset, "-cq", String(settings.cq), "-b:v", "0", "-rc", "vbr", "-tag:v", "hvc1", "-pix_fmt", "yuv420p"];
+      }
+      const settings = HEVC_PRESETS[preset] || HEVC_PRESETS.balanced;
+      return ["-c:v", "libx265", "-preset", settings.preset, "-crf", String(settings.crf), "-tag:v", "hvc1", "-pix_fmt", "yuv420p"];
+    }
+
+    case "vp9": {
+      const settings = VP9_PRESETS[preset] || VP9_PRESETS.balanced;
+      return [
+        "-c:v", "libvpx-vp9",
+        "-b:v", "0", // Constant quality mode
+        "-crf", String(settings.crf),
+        "-deadline", settings.deadline,
+        "-cpu-used", String(settings.cpuUsed),
+        "-row-mt", "1",
+        "-pix_fmt", "yuv420p",
+      ];
+    }
+
+    case "av1": {
+      const settings = AV1_PRESETS[preset] || AV1_PRESETS.balanced;
+      return ["-c:v", "libsvtav1", "-preset", String(settings.preset), "-crf", String(settings.crf), "-pix_fmt", "yuv420p"];
+    }
+
+    case "gif":
+      return ["-c:v", "gif", "-loop", "0"];
+
+    case "webp": {
+      const settings = WEBP_PRESETS[preset] || WEBP_PRESETS.balanced;
+      return [
+        "-c:v", "libwebp",
+        "-lossless", "0",
+        "-quality", String(settings.quality),
+        "-compression_level", String(settings.compression),
+        "-loop", "0",
+        "-pix_fmt", "yuv420p",
+      ];
+    }
+
+    case "png": {
+      const settings = PNG_PRESETS[preset] || PNG_PRESETS.balanced;
+      return ["-c:v", "png", "-compression_level", String(settings.compression), "-pix_fmt", "rgb24"];
+    }
+
+    case "h264":
+    default: {
+      if (useNvenc) {
+        const settings = NVENC_PRESETS[preset] || NVENC_PRESETS.balanced;
+        return [
+          "-c:v", "h264_nvenc",
+          "-preset", settings.preset,
+          "-cq", String(settings.cq),
+          "-b:v", "0", // Use CQ mode (constant quality)
+          "-rc", "vbr", // Variable bitrate for better quality
+          "-pix_fmt", "yuv420p",
+        ];
+      }
+      const settings = ENCODING_PRESETS[preset] || ENCODING_PRESETS.balanced;
+      return [
+        "-c:v", "libx264",
+        "-preset", settings.preset,
+        "-crf", String(settings.crf),
+        "-threads", "0", // Auto-detect threads
+        "-pix_fmt", "yuv420p",
+      ];
+    }
+  }
+}
+
+/**
+ * Get audio encoder arguments suited to the codec's container
+ */
+export function getAudioEncoderArgs(codec: OutputCodec): string[] {
+  if (codec === "vp9" || codec === "av1") {
+    return ["-c:a", "libopus", "-b:a", "160k"];
+  }
+  return ["-c:a", "aac", "-b:a", "192k"];
+}
+
+/**
+ * Get container-specific muxer arguments
+ */
+export function getContainerArgs(output: string): string[] {
+  const ext = path.extname(output).toLowerCase();
+  if (ext === ".mp4" || ext === ".mov" || ext === ".m4v") {
+    return ["-movflags", "+faststart"];
+  }
+  return [];
+}
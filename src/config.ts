@@ -1,5 +1,19 @@
-import type { CollageConfig, MediaItem } from "./types";
-import { getMediaType } from "./ffmpeg";
+import type { AudioConfig, CollageConfig, MediaItem, MotionConfig, SceneConfig, SlotsConfig, TransitionConfig } from "./types";
+import {
+  getMediaType,
+  getTransitionDuration,
+  getSceneTransition,
+  AVAILABLE_FIT_MODES,
+  AVAILABLE_AUDIO_MODES,
+  AVAILABLE_LOOP_MODES,
+  AVAILABLE_MOTIONS,
+  AVAILABLE_TRANSITIONS,
+} from "./ffmpeg";
+import { AVAILABLE_CODECS, resolveCodec } from "./codecs";
+import { normalizeShaderChain } from "./shaders";
+import { AVAILABLE_SLOT_ORDERS } from "./slots";
+import { AVAILABLE_EASINGS } from "./keyframes";
+import { AVAILABLE_PIN_ANCHORS } from "./layout";
 
 const DEFAULT_CONFIG: Partial<CollageConfig> = {
   width: 1920,
@@ -13,7 +27,11 @@ const DEFAULT_CONFIG: Partial<CollageConfig> = {
   },
 };
 
-export async function loadConfig(configPath: string): Promise<CollageConfig> {
+/**
+ * Load and validate a JSON config. Overrides (such as command line flags)
+ * replace the file's values before validation; undefined ones are ignored.
+ */
+export async function loadConfig(configPath: string, overrides: Record<string, unknown> = {}): Promise<CollageConfig> {
   const file = Bun.file(configPath);
   if (!(await file.exists())) {
     throw new Error(`Config file not found: ${configPath}`);
@@ -28,6 +46,12 @@ export async function loadConfig(configPath: string): Promise<CollageConfig> {
     throw new Error("Config file must be JSON");
   }
 
+  for (const [key, value] of Object.entries(overrides)) {
+    if (value !== undefined) {
+      userConfig[key] = value;
+    }
+  }
+
   // Merge with defaults
   const config: CollageConfig = {
     ...DEFAULT_CONFIG,
@@ -43,16 +67,331 @@ export async function loadConfig(configPath: string): Promise<CollageConfig> {
     throw new Error("Config must specify 'output' path");
   }
 
-  if (!config.media || config.media.length === 0) {
+  // Scenes can list their own media instead of sharing the top-level list
+  if ((!config.media || config.media.length === 0) && !userConfig.scenes) {
     throw new Error("Config must specify at least one media item");
   }
 
+  if (config.codec && !AVAILABLE_CODECS.includes(config.codec)) {
+    throw new Error(`Unknown codec '${config.codec}' (expected ${AVAILABLE_CODECS.join(", ")})`);
+  }
+
+  // Throws when an image codec does not match the output extension
+  resolveCodec(config.output, config.codec);
+
+  if (config.layout.fit && !AVAILABLE_FIT_MODES.includes(config.layout.fit)) {
+    throw new Error(`Unknown fit mode '${config.layout.fit}' (expected ${AVAILABLE_FIT_MODES.join(", ")})`);
+  }
+
+  const tolerance = config.layout.aspectTolerance;
+  if (tolerance !== undefined && (typeof tolerance !== "number" || !(tolerance >= 0 && tolerance <= 1))) {
+    throw new Error(`Invalid aspect tolerance '${tolerance}' (expected 0-1)`);
+  }
+
+  if (userConfig.shader !== undefined) {
+    config.shader = normalizeShaderChain(userConfig.shader);
+  }
+
+  if (userConfig.motion !== undefined) {
+    config.motion = normalizeMotionConfig(userConfig.motion);
+  }
+
+  if (userConfig.slots !== undefined) {
+    config.slots = normalizeSlotsConfig(userConfig.slots);
+  }
+
   // Process media items
-  config.media = await processMediaItems(config.media);
+  config.media = await processMediaItems(config.media ?? []);
+
+  if (userConfig.audio !== undefined) {
+    config.audio = await normalizeAudioConfig(userConfig.audio, config.media.length);
+    validateSlotsAudio(config);
+  }
+
+  if (userConfig.transition !== undefined) {
+    config.transition = normalizeTransitionConfig(userConfig.transition);
+  }
+
+  if (userConfig.scenes !== undefined) {
+    config.scenes = await normalizeScenes(userConfig.scenes, config);
+    config.duration = config.scenes.reduce((sum, scene) => sum + scene.duration, 0);
+
+    if (config.seamless) {
+      throw new Error("Seamless loops are not supported with scenes");
+    }
+    if (config.audio && (config.audio.mode === "mix" || config.audio.mode === "source")) {
+      throw new Error("Scenes support audio 'none' or a music track (cell audio would cut between scenes)");
+    }
+    const morphs = [config.transition, ...config.scenes.map(scene => scene.transition)].some(t => t?.type === "morph");
+    if (config.slots && morphs) {
+      throw new Error("Morph transitions are not supported in slots mode");
+    }
+  }
 
   return config;
 }
 
+/**
+ * Slots mode renders each queue to a silent clip, so only a music track can
+ * be heard
+ */
+export function validateSlotsAudio(config: Pick<CollageConfig, "slots" | "audio">): void {
+  if (config.slots && config.audio && (config.audio.mode === "mix" || config.audio.mode === "source")) {
+    throw new Error("Slots mode supports audio 'none' or a music track (queued clips are rendered without sound)");
+  }
+}
+
+/**
+ * Normalize a scene transition. Accepts a type name ("wipe") or an object
+ * such as { "type": "morph", "duration": 0.5, "easing": "ease-out" }.
+ */
+export function normalizeTransitionConfig(raw: any): TransitionConfig {
+  let transition: TransitionConfig;
+
+  if (typeof raw === "string") {
+    transition = { type: raw as TransitionConfig["type"] };
+  } else if (raw && typeof raw === "object") {
+    transition = { ...raw };
+  } else {
+    throw new Error("Config 'transition' must be a transition name or object");
+  }
+
+  if (!AVAILABLE_TRANSITIONS.includes(transition.type)) {
+    throw new Error(`Unknown transition '${transition.type}' (expected ${AVAILABLE_TRANSITIONS.join(", ")})`);
+  }
+
+  if (transition.duration !== undefined && (typeof transition.duration !== "number" || !(transition.duration > 0))) {
+    throw new Error(`Invalid transition duration '${transition.duration}' (expected seconds > 0)`);
+  }
+
+  if (transition.easing !== undefined && !AVAILABLE_EASINGS.includes(transition.easing)) {
+    throw new Error(`Unknown easing '${transition.easing}' (expected ${AVAILABLE_EASINGS.join(", ")})`);
+  }
+
+  return transition;
+}
+
+/**
+ * Normalize the scenes of a config. Scene media can be indices into the
+ * top-level media list or media entries of their own; without a media list
+ * a scene shows all top-level media.
+ */
+export async function normalizeScenes(raw: any, config: CollageConfig): Promise<SceneConfig[]> {
+  if (!Array.isArray(raw) || raw.length === 0) {
+    throw new Error("Config 'scenes' must be a non-empty list");
+  }
+
+  const scenes: SceneConfig[] = [];
+  for (const [i, entry] of raw.entries()) {
+    const name = `Scene ${i + 1}`;
+    if (!entry || typeof entry !== "object") {
+      throw new Error(`${name} must be an object with a 'duration'`);
+    }
+    if (typeof entry.duration !== "number" || !(entry.duration > 0)) {
+      throw new Error(`${name} has invalid duration '${entry.duration}' (expected seconds > 0)`);
+    }
+
+    let media: MediaItem[];
+    if (entry.media === undefined) {
+      media = config.media;
+    } else if (Array.isArray(entry.media)) {
+      media = [];
+      for (const item of entry.media) {
+        if (typeof item === "number") {
+          const shared = config.media[item];
+          if (!Number.isInteger(item) || !shared) {
+            throw new Error(`${name} media index ${item} is out of range (0-${config.media.length - 1})`);
+          }
+          media.push(shared);
+        } else {
+          media.push(...(await processMediaItems([item])));
+        }
+      }
+    } else {
+      throw new Error(`${name} 'media' must be a list of media indices or items`);
+    }
+    if (media.length === 0) {
+      throw new Error(`${name} has no media`);
+    }
+
+    if (entry.layout?.fit && !AVAILABLE_FIT_MODES.includes(entry.layout.fit)) {
+      throw new Error(`Unknown fit mode '${entry.layout.fit}' in ${name.toLowerCase()}`);
+    }
+
+    const scene: SceneConfig = { duration: entry.duration, media, layout: entry.layout };
+    if (entry.transition !== undefined) {
+      scene.transition = normalizeTransitionConfig(entry.transition);
+    }
+
+    // A transition overlaps the end of the previous scene and the start of this one
+    if (i > 0) {
+      const overlap = getTransitionDuration(getSceneTransition(scene, config.transition));
+      const shortest = Math.min(scenes[i - 1]!.duration, scene.duration);
+      if (overlap > shortest) {
+        throw new Error(`${name} transition (${overlap}s) is longer than the scenes it joins (${shortest}s)`);
+      }
+    }
+
+    scenes.push(scene);
+  }
+
+  return scenes;
+}
+
+/**
+ * Normalize the audio section of a config.
+ * Accepts a mode name ("none", "mix"), a media index, or an object
+ * such as { "from": 2 } or { "track": "music.mp3", "fadeOut": 3 }.
+ */
+export async function normalizeAudioConfig(raw: any, mediaCount: number): Promise<AudioConfig> {
+  let audio: AudioConfig;
+
+  if (typeof raw === "string" && /^\d+$/.test(raw)) {
+    audio = { mode: "source", from: parseInt(raw, 10) };
+  } else if (typeof raw === "string") {
+    audio = { mode: raw as AudioConfig["mode"] };
+  } else if (typeof raw === "number") {
+    audio = { mode: "source", from: raw };
+  } else if (raw && typeof raw === "object") {
+    const mode = raw.mode || (raw.track ? "track" : raw.from !== undefined ? "source" : "mix");
+    audio = { ...raw, mode };
+  } else {
+    throw new Error("Config 'audio' must be a mode name, media index, or object");
+  }
+
+  if (!AVAILABLE_AUDIO_MODES.includes(audio.mode)) {
+    throw new Error(`Unknown audio mode '${audio.mode}' (expected ${AVAILABLE_AUDIO_MODES.join(", ")})`);
+  }
+
+  if (audio.mode === "source") {
+    if (audio.from === undefined || !Number.isInteger(audio.from) || audio.from < 0 || audio.from >= mediaCount) {
+      throw new Error(`Audio source index ${audio.from} is out of range (0-${mediaCount - 1})`);
+    }
+  }
+
+  if (audio.mode === "track") {
+    if (!audio.track) {
+      throw new Error("Audio track mode requires a 'track' file");
+    }
+    if (!(await Bun.file(audio.track).exists())) {
+      throw new Error(`Audio track not found: ${audio.track}`);
+    }
+  }
+
+  return audio;
+}
+
+/**
+ * Normalize a motion setting. Accepts a motion name ("zoom-in") or an
+ * object such as { "type": "random", "intensity": 0.2, "seed": 7 }.
+ */
+export function normalizeMotionConfig(raw: any): MotionConfig {
+  let motion: MotionConfig;
+
+  if (typeof raw === "string") {
+    motion = { type: raw as MotionConfig["type"] };
+  } else if (raw && typeof raw === "object") {
+    motion = { ...raw };
+  } else {
+    throw new Error("Config 'motion' must be a motion name or object");
+  }
+
+  if (!AVAILABLE_MOTIONS.includes(motion.type)) {
+    throw new Error(`Unknown motion '${motion.type}' (expected ${AVAILABLE_MOTIONS.join(", ")})`);
+  }
+
+  if (motion.intensity !== undefined && (typeof motion.intensity !== "number" || !(motion.intensity > 0 && motion.intensity <= 1))) {
+    throw new Error(`Invalid motion intensity '${motion.intensity}' (expected a number above 0, up to 1)`);
+  }
+
+  if (motion.seed !== undefined && !Number.isInteger(motion.seed)) {
+    throw new Error(`Invalid motion seed '${motion.seed}' (expected an integer)`);
+  }
+
+  return motion;
+}
+
+/**
+ * Normalize a slots setting. Accepts a cell count or an object such as
+ * { "count": 9, "order": "random", "seed": 3, "crossfade": 0.5 }.
+ */
+export function normalizeSlotsConfig(raw: any): SlotsConfig {
+  let slots: SlotsConfig;
+
+  if (typeof raw === "number") {
+    slots = { count: raw };
+  } else if (raw && typeof raw === "object") {
+    slots = { ...raw };
+  } else {
+    throw new Error("Config 'slots' must be a cell count or object");
+  }
+
+  if (!Number.isInteger(slots.count) || slots.count < 1) {
+    throw new Error(`Invalid slot count '${slots.count}' (expected an integer >= 1)`);
+  }
+
+  if (slots.order !== undefined && !AVAILABLE_SLOT_ORDERS.includes(slots.order)) {
+    throw new Error(`Unknown slot order '${slots.order}' (expected ${AVAILABLE_SLOT_ORDERS.join(", ")})`);
+  }
+
+  if (slots.seed !== undefined && !Number.isInteger(slots.seed)) {
+    throw new Error(`Invalid slot seed '${slots.seed}' (expected an integer)`);
+  }
+
+  if (slots.itemDuration !== undefined && (typeof slots.itemDuration !== "number" || !(slots.itemDuration > 0))) {
+    throw new Error(`Invalid slot item duration '${slots.itemDuration}' (expected seconds > 0)`);
+  }
+
+  if (slots.crossfade !== undefined && (typeof slots.crossfade !== "number" || !(slots.crossfade >= 0))) {
+    throw new Error(`Invalid slot crossfade '${slots.crossfade}' (expected seconds >= 0)`);
+  }
+
+  return slots;
+}
+
+/**
+ * Check the trim and speed settings of a media item
+ */
+function validatePlayback(item: MediaItem): void {
+  const { start, end, speed } = item;
+
+  if (start !== undefined && (typeof start !== "number" || !Number.isFinite(start) || start < 0)) {
+    throw new Error(`Invalid start '${start}' for ${item.path} (expected seconds >= 0)`);
+  }
+  if (end !== undefined && (typeof end !== "number" || !Number.isFinite(end) || end <= (start ?? 0))) {
+    throw new Error(`Invalid end '${end}' for ${item.path} (expected seconds after start)`);
+  }
+  if (speed !== undefined && (typeof speed !== "number" || !Number.isFinite(speed) || speed <= 0)) {
+    throw new Error(`Invalid speed '${speed}' for ${item.path} (expected a number > 0)`);
+  }
+}
+
+/**
+ * Check the layout weight and pin of a media item
+ */
+function validatePlacement(item: MediaItem): void {
+  const { weight, pin } = item;
+
+  if (weight !== undefined && (typeof weight !== "number" || !Number.isFinite(weight) || weight <= 0)) {
+    throw new Error(`Invalid weight '${weight}' for ${item.path} (expected a number > 0)`);
+  }
+  if (pin === undefined) return;
+  if (typeof pin === "string") {
+    if (!AVAILABLE_PIN_ANCHORS.includes(pin)) {
+      throw new Error(`Unknown pin '${pin}' for ${item.path} (expected ${AVAILABLE_PIN_ANCHORS.join(", ")} or { row, column })`);
+    }
+  } else if (
+    !pin ||
+    typeof pin !== "object" ||
+    !Number.isInteger(pin.row) ||
+    !Number.isInteger(pin.column) ||
+    pin.row < 0 ||
+    pin.column < 0
+  ) {
+    throw new Error(`Invalid pin for ${item.path} (expected an anchor or { row, column } with whole numbers >= 0)`);
+  }
+}
+
 async function processMediaItems(items: any[]): Promise<MediaItem[]> {
   const processed: MediaItem[] = [];
 
@@ -79,9 +418,32 @@ async function processMediaItems(items: any[]): Promise<MediaItem[]> {
         type,
         duration: item.duration,
         loop: item.loop,
+        loopMode: item.loopMode,
+        fit: item.fit,
+        focus: item.focus,
+        volume: item.volume,
+        start: item.start,
+        end: item.end,
+        speed: item.speed,
+        motion: item.motion !== undefined ? normalizeMotionConfig(item.motion) : undefined,
+        effects: item.effects !== undefined ? normalizeShaderChain(item.effects) : undefined,
+        slot: item.slot,
+        weight: item.weight,
+        pin: item.pin,
       };
     }
 
+    if (mediaItem.fit && !AVAILABLE_FIT_MODES.includes(mediaItem.fit)) {
+      throw new Error(`Unknown fit mode '${mediaItem.fit}' for ${mediaItem.path}`);
+    }
+
+    if (mediaItem.loopMode && !AVAILABLE_LOOP_MODES.includes(mediaItem.loopMode)) {
+      throw new Error(`Unknown loop mode '${mediaItem.loopMode}' for ${mediaItem.path} (expected ${AVAILABLE_LOOP_MODES.join(", ")})`);
+    }
+
+    validatePlayback(mediaItem);
+    validatePlacement(mediaItem);
+
     // Check if file exists
     const file = Bun.file(mediaItem.path);
     if (!(await file.exists())) {
@@ -125,10 +487,10 @@ export function generateSampleConfig(): string {
       gap: 4,
     },
     media: [
-      { path: "/path/to/video1.mp4", type: "video", loop: true },
-      { path: "/path/to/image1.jpg", type: "image" },
-      { path: "/path/to/video2.mp4", type: "video", loop: true },
-      { path: "/path/to/image2.png", type: "image" },
+      { path: "/path/to/video1.mp4", type: "video", loop: true, loopMode: "pingpong" },
+      { path: "/path/to/image1.jpg", type: "image", motion: { type: "zoom-in", intensity: 0.2 } },
+      { path: "/path/to/video2.mp4", type: "video", loop: true, start: 95, end: 103, speed: 0.5 },
+      { path: "/path/to/image2.png", type: "image", effects: [{ name: "grayscale" }, { name: "contrast", params: { amount: 1.1 } }] },
     ],
   };
 
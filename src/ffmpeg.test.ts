@@ -1,9 +1,41 @@
-import { test, expect, describe } from "bun:test";
+import { test, expect, describe, spyOn } from "bun:test";
+import { mkdtempSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import path from "path";
+import type { CollageConfig, MediaItem } from "./types";
 import {
   getMediaType,
+  isTimedMedia,
+  buildAudioFilterComplex,
+  parseProbeResult,
+  getDisplayScaleFilter,
   getShaderFilter,
+  getFitFilter,
+  escapeFilterValue,
+  formatFilterScript,
+  getCudaFitPrefilter,
+  getSeamlessFade,
+  getPlaybackDuration,
+  getLoopMode,
+  getMotionFilter,
+  resolveMotions,
+  needsPreparedClip,
+  getInputArgs,
+  getSpeedFilter,
+  getTempoFilter,
+  buildSeamlessLoop,
+  buildSceneTransitions,
+  getSceneTransition,
+  getTransitionDuration,
+  generateCollage,
+  planCollage,
+  getLayoutWarnings,
   AVAILABLE_SHADERS,
   AVAILABLE_LAYOUTS,
+  AVAILABLE_FIT_MODES,
+  AVAILABLE_LOOP_MODES,
+  AVAILABLE_MOTIONS,
+  AVAILABLE_TRANSITIONS,
   ENCODING_PRESETS,
   NVENC_PRESETS,
 } from "./ffmpeg";
@@ -49,6 +81,135 @@ describe("FFmpeg Utilities", () => {
     });
   });
 
+  describe("parseProbeResult", () => {
+    // Synthetic ffprobe output for a landscape-coded stream with optional metadata
+    const probe = (stream: Record<string, unknown>) => ({
+      format: { duration: "12.5" },
+      streams: [
+        { codec_type: "video", width: 1920, height: 1080, r_frame_rate: "30/1", ...stream },
+        { codec_type: "audio" },
+      ],
+    });
+
+    test("reads plain landscape video", () => {
+      const info = parseProbeResult(probe({ sample_aspect_ratio: "1:1" }));
+      expect(info.width).toBe(1920);
+      expect(info.height).toBe(1080);
+      expect(info.displayWidth).toBe(1920);
+      expect(info.displayHeight).toBe(1080);
+      expect(info.rotation).toBe(0);
+      expect(info.duration).toBe(12.5);
+      expect(info.hasAudio).toBe(true);
+      expect(info.fps).toBe(30);
+    });
+
+    test("swaps display size for display matrix rotation", () => {
+      const info = parseProbeResult(probe({
+        side_data_list: [{ side_data_type: "Display Matrix", rotation: -90 }],
+      }));
+      expect(info.rotation).toBe(90);
+      expect(info.displayWidth).toBe(1080);
+      expect(info.displayHeight).toBe(1920);
+    });
+
+    test("swaps display size for legacy rotate tag", () => {
+      const info = parseProbeResult(probe({ tags: { rotate: "270" } }));
+      expect(info.rotation).toBe(270);
+      expect(info.displayWidth).toBe(1080);
+      expect(info.displayHeight).toBe(1920);
+    });
+
+    test("keeps orientation for upside-down video", () => {
+      const info = parseProbeResult(probe({
+        side_data_list: [{ side_data_type: "Display Matrix", rotation: 180 }],
+      }));
+      expect(info.rotation).toBe(180);
+      expect(info.displayWidth).toBe(1920);
+      expect(info.displayHeight).toBe(1080);
+    });
+
+    test("applies anamorphic sample aspect ratio", () => {
+      const info = parseProbeResult(probe({ width: 1440, height: 1080, sample_aspect_ratio: "4:3" }));
+      expect(info.sampleAspectRatio).toBeCloseTo(4 / 3, 5);
+      expect(info.displayWidth).toBe(1920);
+      expect(info.displayHeight).toBe(1080);
+    });
+
+    test("applies sample aspect ratio before rotation", () => {
+      const info = parseProbeResult(probe({
+        width: 1440,
+        height: 1080,
+        sample_aspect_ratio: "4:3",
+        side_data_list: [{ side_data_type: "Display Matrix", rotation: 90 }],
+      }));
+      expect(info.displayWidth).toBe(1080);
+      expect(info.displayHeight).toBe(1920);
+    });
+
+    test("ignores unknown sample aspect ratio", () => {
+      const info = parseProbeResult(probe({ sample_aspect_ratio: "0:1" }));
+      expect(info.sampleAspectRatio).toBe(1);
+      expect(info.displayWidth).toBe(1920);
+    });
+
+    test("detects animated images from frame count", () => {
+      const info = parseProbeResult({
+        format: { duration: "2.000000" },
+        streams: [{ codec_type: "video", width: 320, height: 240, r_frame_rate: "100/1", nb_read_packets: "20" }],
+      }, true);
+      expect(info.animated).toBe(true);
+      expect(info.frameCount).toBe(20);
+      expect(info.fps).toBe(10);
+      expect(info.duration).toBe(2);
+    });
+
+    test("treats single-frame images as stills", () => {
+      const info = parseProbeResult({
+        format: {},
+        streams: [{ codec_type: "video", width: 600, height: 800, r_frame_rate: "25/1", nb_read_packets: "1" }],
+      }, true);
+      expect(info.animated).toBe(false);
+      expect(info.duration).toBe(0);
+      expect(info.displayWidth).toBe(600);
+      expect(info.displayHeight).toBe(800);
+    });
+
+    test("throws when there is no video stream", () => {
+      expect(() => parseProbeResult({ streams: [{ codec_type: "audio" }] }, false, "song.mp4")).toThrow("song.mp4");
+    });
+  });
+
+  describe("getDisplayScaleFilter", () => {
+    const base = { width: 1440, height: 1080, duration: 10, hasAudio: false, fps: 30 };
+
+    test("returns empty string for square pixels", () => {
+      expect(getDisplayScaleFilter({ ...base, displayWidth: 1440, displayHeight: 1080, sampleAspectRatio: 1 })).toBe("");
+      expect(getDisplayScaleFilter(undefined)).toBe("");
+    });
+
+    test("resamples anamorphic pixels to display size", () => {
+      const filter = getDisplayScaleFilter({ ...base, displayWidth: 1920, displayHeight: 1080, sampleAspectRatio: 4 / 3 });
+      expect(filter).toBe("scale=1920:1080,setsar=1");
+    });
+  });
+
+  describe("isTimedMedia", () => {
+    const info = { width: 480, height: 270, duration: 2, hasAudio: false, fps: 10 };
+
+    test("treats videos as timed", () => {
+      expect(isTimedMedia({ path: "clip.mp4", type: "video" })).toBe(true);
+    });
+
+    test("treats still images as untimed", () => {
+      expect(isTimedMedia({ path: "photo.jpg", type: "image" })).toBe(false);
+      expect(isTimedMedia({ path: "photo.png", type: "image", info: { ...info, frameCount: 1, animated: false } })).toBe(false);
+    });
+
+    test("treats animated images as timed", () => {
+      expect(isTimedMedia({ path: "anim.gif", type: "image", info: { ...info, frameCount: 20, animated: true } })).toBe(true);
+    });
+  });
+
   describe("getShaderFilter", () => {
     test("returns vignette filter", () => {
       const filter = getShaderFilter("vignette", 1920, 1080);
@@ -91,6 +252,551 @@ describe("FFmpeg Utilities", () => {
     });
   });
 
+  describe("escapeFilterValue", () => {
+    // Mirrors ffmpeg's av_get_token: backslash escapes one char, quotes are literal runs
+    const unescape = (input: string, terms: string): string => {
+      let out = "";
+      for (let i = 0; i < input.length; i++) {
+        const c = input[i]!;
+        if (terms.includes(c)) throw new Error(`Unescaped '${c}' in ${input}`);
+        if (c === "\\") {
+          out += input[++i] ?? "";
+        } else if (c === "'") {
+          const end = input.indexOf("'", i + 1);
+          out += input.slice(i + 1, end);
+          i = end;
+        } else {
+          out += c;
+        }
+      }
+      return out;
+    };
+
+    // Graph level splits filters and labels, option level splits options
+    const roundTrip = (value: string) => unescape(unescape(escapeFilterValue(value), "[],;"), ":");
+
+    const paths = [
+      "/media/My Clips/holiday video.mp4",
+      "C:/Users/me/clip.mp4",
+      "/media/one, two, three.mp4",
+      "/media/it's \"quoted\".mp4",
+      "/media/[weird];name\\with\\backslashes.mp4",
+    ];
+
+    for (const value of paths) {
+      test(`round-trips ${value}`, () => {
+        expect(roundTrip(value)).toBe(value);
+      });
+    }
+
+    test("leaves plain colors untouched", () => {
+      expect(escapeFilterValue("black")).toBe("black");
+      expect(escapeFilterValue("#1a1a1a@0.5")).toBe("#1a1a1a@0.5");
+    });
+
+    test("escapes expression commas for the graph level", () => {
+      expect(escapeFilterValue("min(iw,ih)")).toBe("min(iw\\,ih)");
+      expect(roundTrip("if(lt(t,2),0,1)")).toBe("if(lt(t,2),0,1)");
+    });
+  });
+
+  describe("formatFilterScript", () => {
+    test("writes one filter chain per line", () => {
+      const script = formatFilterScript({ filterParts: ["color=c=black[bg]", "[bg]null[out]"] });
+      expect(script).toBe("color=c=black[bg];\n[bg]null[out]\n");
+    });
+  });
+
+  describe("getFitFilter", () => {
+    test("stretch scales to exact cell size", () => {
+      const filter = getFitFilter("stretch", 640, 360);
+      expect(filter).toBe("scale=640:360:flags=lanczos");
+    });
+
+    test("cover scales up and crops to the cell", () => {
+      const filter = getFitFilter("cover", 640, 360);
+      expect(filter).toContain("force_original_aspect_ratio=increase");
+      expect(filter).toContain("crop=640:360:(iw-ow)*0.5:(ih-oh)*0.5");
+    });
+
+    test("cover crops around the focus point", () => {
+      const filter = getFitFilter("cover", 640, 360, { x: 0.25, y: 0 });
+      expect(filter).toContain("crop=640:360:(iw-ow)*0.25:(ih-oh)*0");
+    });
+
+    test("cover clamps focus point to the frame", () => {
+      const filter = getFitFilter("cover", 640, 360, { x: -1, y: 2 });
+      expect(filter).toContain("(iw-ow)*0:(ih-oh)*1");
+    });
+
+    test("contain letterboxes with the background color", () => {
+      const filter = getFitFilter("contain", 640, 360, undefined, "white");
+      expect(filter).toContain("force_original_aspect_ratio=decrease");
+      expect(filter).toContain("pad=640:360:(ow-iw)/2:(oh-ih)/2:color=white");
+    });
+  });
+
+  describe("getCudaFitPrefilter", () => {
+    test("returns empty string for stretch", () => {
+      expect(getCudaFitPrefilter("stretch", 640, 360)).toBe("");
+    });
+
+    test("cover crops source to the cell aspect", () => {
+      const filter = getCudaFitPrefilter("cover", 640, 360, { x: 1, y: 0.5 });
+      expect(filter).toContain("crop=");
+      expect(filter).toContain("1.7778");
+      expect(filter).toContain("(iw-ow)*1");
+    });
+
+    test("contain pads source to the cell aspect", () => {
+      const filter = getCudaFitPrefilter("contain", 360, 640);
+      expect(filter).toContain("pad=");
+      expect(filter).toContain("0.5625");
+    });
+  });
+
+  describe("buildAudioFilterComplex", () => {
+    const info = (hasAudio: boolean) => ({ width: 1920, height: 1080, duration: 10, hasAudio, fps: 30 });
+    const media = [
+      { path: "a.mp4", type: "video" as const, info: info(true), volume: 0.5 },
+      { path: "b.mp4", type: "video" as const, info: info(false) },
+      { path: "c.mp4", type: "video" as const, info: info(true), loop: false },
+    ];
+
+    test("returns null when silent", () => {
+      expect(buildAudioFilterComplex(media, undefined, 30, 3)).toBeNull();
+      expect(buildAudioFilterComplex(media, { mode: "none" }, 30, 3)).toBeNull();
+    });
+
+    test("takes audio from a single source", () => {
+      const graph = buildAudioFilterComplex(media, { mode: "source", from: 2 }, 30, 3)!;
+      expect(graph.inputs).toEqual(["-i", "c.mp4"]);
+      expect(graph.filterParts).toHaveLength(1);
+      expect(graph.filterParts[0]).toStartWith("[3:a]atrim=duration=30");
+      expect(graph.filterParts[0]).toEndWith("[aout]");
+      expect(graph.filterParts[0]).not.toContain("aloop");
+    });
+
+    test("returns null when the source has no audio", () => {
+      expect(buildAudioFilterComplex(media, { mode: "source", from: 1 }, 30, 3)).toBeNull();
+    });
+
+    test("mixes every item with audio using per-item volume", () => {
+      const graph = buildAudioFilterComplex(media, { mode: "mix" }, 30, 3)!;
+      expect(graph.inputs).toEqual(["-stream_loop", "-1", "-i", "a.mp4", "-i", "c.mp4"]);
+      expect(graph.filterParts[0]).toStartWith("[3:a]atrim=duration=30");
+      expect(graph.filterParts[0]).toContain("volume=0.5");
+      expect(graph.filterParts[1]).toContain("[4:a]");
+      expect(graph.filterParts[2]).toContain("[a0][a1]amix=inputs=2");
+      expect(graph.filterParts[2]).toEndWith("[aout]");
+    });
+
+    test("applies the overall volume to a mix of one item", () => {
+      const graph = buildAudioFilterComplex(media.slice(0, 2), { mode: "mix", volume: 0.5 }, 30, 3)!;
+      expect(graph.filterParts).toHaveLength(1);
+      expect(graph.filterParts[0]).toContain("volume=0.25");
+      expect(graph.filterParts[0]).toEndWith("[aout]");
+    });
+
+    test("loops a background track with a fade-out", () => {
+      const graph = buildAudioFilterComplex(media, { mode: "track", track: "music.mp3", fadeOut: 3 }, 30, 3)!;
+      expect(graph.inputs).toEqual(["-stream_loop", "-1", "-i", "music.mp3"]);
+      expect(graph.filterParts[0]).toContain("[3:a]atrim=duration=30");
+      expect(graph.filterParts[0]).toContain("afade=t=out:st=27:d=3");
+    });
+  });
+
+  describe("trimming and speed", () => {
+    const info = { width: 1920, height: 1080, duration: 600, hasAudio: true, fps: 30 };
+
+    test("computes how long an item plays", () => {
+      expect(getPlaybackDuration({ path: "a.mp4", type: "video", info })).toBe(600);
+      expect(getPlaybackDuration({ path: "a.mp4", type: "video", info, start: 95, end: 103 })).toBe(8);
+      expect(getPlaybackDuration({ path: "a.mp4", type: "video", info, start: 95, end: 103, speed: 0.5 })).toBe(16);
+      expect(getPlaybackDuration({ path: "a.mp4", type: "video", info, start: 590, end: 900 })).toBe(10);
+    });
+
+    test("seeks on the input for trimmed media", () => {
+      expect(getInputArgs({ path: "a.mp4", type: "video", loop: false })).toEqual(["-i", "a.mp4"]);
+      expect(getInputArgs({ path: "a.mp4", type: "video", loop: false, start: 95, end: 103 })).toEqual(["-ss", "95", "-t", "8", "-i", "a.mp4"]);
+      expect(getInputArgs({ path: "a.mp4", type: "video", loop: false, end: 5 })).toEqual(["-t", "5", "-i", "a.mp4"]);
+    });
+
+    test("ignores trims on still images", () => {
+      expect(getInputArgs({ path: "a.jpg", type: "image", start: 2 })).toEqual(["-i", "a.jpg"]);
+    });
+
+    test("retimes video frames", () => {
+      expect(getSpeedFilter(undefined)).toBe("");
+      expect(getSpeedFilter(1)).toBe("");
+      expect(getSpeedFilter(0.5)).toBe("setpts=(PTS-STARTPTS)/0.5");
+    });
+
+    test("chains atempo within its supported range", () => {
+      expect(getTempoFilter(1)).toBe("");
+      expect(getTempoFilter(1.5)).toBe("atempo=1.5");
+      expect(getTempoFilter(3)).toBe("atempo=2,atempo=1.5");
+      expect(getTempoFilter(0.25)).toBe("atempo=0.5,atempo=0.5");
+    });
+
+    test("trims and retimes audio", () => {
+      const media = [{ path: "a.mp4", type: "video" as const, info, loop: false, start: 10, end: 14, speed: 2 }];
+      const graph = buildAudioFilterComplex(media, { mode: "source", from: 0 }, 30, 1)!;
+      expect(graph.inputs).toEqual(["-ss", "10", "-t", "4", "-i", "a.mp4"]);
+      expect(graph.filterParts[0]).toStartWith("[1:a]atempo=2,atrim=duration=30");
+    });
+  });
+
+  describe("loop modes", () => {
+    const clip = (extra: Partial<MediaItem> = {}): MediaItem => ({ path: "a.mp4", type: "video", ...extra });
+
+    test("restarts looping clips by default", () => {
+      expect(getLoopMode(clip())).toBe("restart");
+      expect(getLoopMode(clip({ loopMode: "pingpong" }))).toBe("pingpong");
+    });
+
+    test("clips that play through once hold their last frame", () => {
+      expect(getLoopMode(clip({ loop: false }))).toBe("freeze");
+      expect(getLoopMode(clip({ loop: false, loopMode: "pingpong" }))).toBe("freeze");
+      expect(getLoopMode(clip({ loop: false, loopMode: "none" }))).toBe("none");
+    });
+
+    test("restarts loops on the input instead of buffering frames", () => {
+      expect(getInputArgs(clip())).toEqual(["-stream_loop", "-1", "-i", "a.mp4"]);
+      expect(getInputArgs(clip({ loopMode: "freeze" }))).toEqual(["-i", "a.mp4"]);
+      expect(getInputArgs({ path: "a.jpg", type: "image" })).toEqual(["-i", "a.jpg"]);
+    });
+
+    test("prepares clips for trimmed and ping-pong loops", () => {
+      expect(needsPreparedClip(clip())).toBe(false);
+      expect(needsPreparedClip(clip({ speed: 2 }))).toBe(false);
+      expect(needsPreparedClip(clip({ start: 5 }))).toBe(true);
+      expect(needsPreparedClip(clip({ end: 5 }))).toBe(true);
+      expect(needsPreparedClip(clip({ loopMode: "pingpong" }))).toBe(true);
+      expect(needsPreparedClip(clip({ loop: false, start: 5 }))).toBe(false);
+      expect(needsPreparedClip({ path: "a.jpg", type: "image", loopMode: "pingpong" })).toBe(false);
+    });
+  });
+
+  describe("motion", () => {
+    const image: MediaItem = { path: "photo.jpg", type: "image" };
+    const zoompan = (filter: string) => filter.slice(filter.indexOf("zoompan="));
+
+    test("renders one cell-sized frame per output frame", () => {
+      const filter = getMotionFilter(image, { type: "zoom-in" }, 480, 270, 10, 30, "cover", "black");
+      expect(filter).toContain("scale=1920:1080");
+      expect(zoompan(filter)).toContain(":d=300:s=480x270:fps=30");
+    });
+
+    test("zooms in and out by the intensity", () => {
+      expect(zoompan(getMotionFilter(image, { type: "zoom-in", intensity: 0.2 }, 480, 270, 10, 30, "cover", "black")))
+        .toStartWith("zoompan=z='1+0.2*on/299'");
+      expect(zoompan(getMotionFilter(image, { type: "zoom-out" }, 480, 270, 10, 30, "cover", "black")))
+        .toStartWith("zoompan=z='1+0.15*(1-on/299)'");
+    });
+
+    test("pans across at a fixed zoom", () => {
+      const left = zoompan(getMotionFilter(image, { type: "pan-left", intensity: 0.2 }, 480, 270, 10, 30, "cover", "black"));
+      const right = zoompan(getMotionFilter(image, { type: "pan-right", intensity: 0.2 }, 480, 270, 10, 30, "cover", "black"));
+      expect(left).toContain("z='1.2'");
+      expect(left).toContain("x='(iw-iw/zoom)*(1-on/299)'");
+      expect(right).toContain("x='(iw-iw/zoom)*on/299'");
+    });
+
+    test("zooms towards the focus point", () => {
+      const focused = { ...image, focus: { x: 0.25, y: 0.75 } };
+      const filter = zoompan(getMotionFilter(focused, { type: "zoom-in" }, 480, 270, 10, 30, "cover", "black"));
+      expect(filter).toContain("x='(iw-iw/zoom)*0.25'");
+      expect(filter).toContain("y='(ih-ih/zoom)*0.75'");
+    });
+
+    test("applies the collage motion to still images only", () => {
+      const media: MediaItem[] = [image, { path: "clip.mp4", type: "video" }, { ...image, motion: { type: "pan-left" } }];
+      const resolved = resolveMotions(media, { type: "zoom-in" });
+      expect(resolved[0]!.motion).toEqual({ type: "zoom-in" });
+      expect(resolved[1]!.motion).toBeUndefined();
+      expect(resolved[2]!.motion).toEqual({ type: "pan-left" });
+      expect(media[0]!.motion).toBeUndefined();
+    });
+
+    test("picks random motions repeatably from the seed", () => {
+      const media: MediaItem[] = Array.from({ length: 8 }, () => image);
+      const pickTypes = (seed: number) => resolveMotions(media, { type: "random", seed }).map(item => item.motion!.type);
+      expect(pickTypes(7)).toEqual(pickTypes(7));
+      expect(pickTypes(7)).not.toContain("random");
+      expect(pickTypes(7)).not.toEqual(pickTypes(8));
+    });
+  });
+
+  describe("seamless loops", () => {
+    test("uses a one second crossfade, shorter for short outputs", () => {
+      expect(getSeamlessFade(30)).toBe(1);
+      expect(getSeamlessFade(2)).toBe(0.5);
+    });
+
+    test("fades the start of a cell in over its end", () => {
+      const parts = buildSeamlessLoop("[0:v]trim=duration=31", "v0", 30, 1);
+      expect(parts[0]).toBe("[0:v]trim=duration=31,split[v0_body][v0_head]");
+      expect(parts[1]).toContain("trim=start=1");
+      expect(parts[2]).toContain("setpts=PTS-STARTPTS+29/TB");
+      expect(parts[2]).toContain("fade=t=in:st=29:d=1:alpha=1");
+      expect(parts[3]).toBe("[v0_main][v0_wrap]overlay=eof_action=pass[v0]");
+    });
+
+    test("crossfades audio sources instead of fading out a track", () => {
+      const media = [{ path: "a.mp4", type: "video" as const, info: { width: 640, height: 360, duration: 10, hasAudio: true, fps: 30 } }];
+      const source = buildAudioFilterComplex(media, { mode: "source", from: 0 }, 30, 1, 1)!;
+      expect(source.filterParts[0]).toContain("atrim=duration=31");
+      expect(source.filterParts.join(";")).toContain("adelay=29000:all=1");
+      expect(source.filterParts[source.filterParts.length - 1]).toEndWith("[aout]");
+
+      const track = buildAudioFilterComplex(media, { mode: "track", track: "music.mp3" }, 30, 1, 1)!;
+      expect(track.filterParts.join(";")).not.toContain("afade=t=out:st=28");
+      expect(track.filterParts[track.filterParts.length - 1]).toEndWith("[aout]");
+    });
+  });
+
+  // Renders real output; needs ffmpeg on the PATH
+  describe.skipIf(!Bun.which("ffmpeg"))("seamless loop rendering", () => {
+    const size = 32;
+
+    // Decode a video to 8-bit grayscale frames
+    const readFrames = (file: string): Uint8Array[] => {
+      const result = Bun.spawnSync(["ffmpeg", "-v", "error", "-i", file, "-vf", `scale=${size}:${size},format=gray`, "-f", "rawvideo", "-"]);
+      const data = new Uint8Array(result.stdout);
+      const frames: Uint8Array[] = [];
+      for (let i = 0; i + size * size <= data.length; i += size * size) {
+        frames.push(data.subarray(i, i + size * size));
+      }
+      return frames;
+    };
+
+    const difference = (a: Uint8Array, b: Uint8Array) =>
+      a.reduce((sum, value, i) => sum + Math.abs(value - b[i]!), 0) / a.length;
+
+    const render = async (dir: string, source: string, name: string, seamless: boolean) => {
+      const output = path.join(dir, name);
+      await generateCollage({
+        output,
+        width: 64,
+        height: 64,
+        duration: 2,
+        fps: 10,
+        preset: "ultrafast",
+        seamless,
+        layout: { type: "grid" },
+        media: [{ path: source, type: "video", loop: true }],
+      });
+      return readFrames(output);
+    };
+
+    test("the last frame continues into the first", async () => {
+      const dir = mkdtempSync(path.join(tmpdir(), "seamless-test-"));
+      try {
+        // Steadily brightening clip: a hard cut back to the start is a large jump
+        const source = path.join(dir, "ramp.mp4");
+        Bun.spawnSync([
+          "ffmpeg", "-v", "error", "-f", "lavfi",
+          "-i", "color=c=black:s=64x64:r=10:d=4,geq=lum='min(255,T*60)':cb=128:cr=128",
+          "-c:v", "libx264", "-pix_fmt", "yuv420p", source,
+        ]);
+
+        const plain = await render(dir, source, "plain.mp4", false);
+        const looped = await render(dir, source, "looped.mp4", true);
+        expect(looped).toHaveLength(20);
+
+        const plainJump = difference(plain[plain.length - 1]!, plain[0]!);
+        const loopJump = difference(looped[looped.length - 1]!, looped[0]!);
+        const step = difference(looped[1]!, looped[0]!);
+
+        expect(plainJump).toBeGreaterThan(50);
+        expect(loopJump).toBeLessThan(plainJump / 4);
+        expect(loopJump).toBeLessThan(step * 3);
+      } finally {
+        rmSync(dir, { recursive: true, force: true });
+      }
+    }, 60_000);
+
+    test("returns the numbered path a PNG sequence is written to", async () => {
+      const dir = mkdtempSync(path.join(tmpdir(), "png-test-"));
+      try {
+        const source = path.join(dir, "red.mp4");
+        Bun.spawnSync(["ffmpeg", "-v", "error", "-f", "lavfi", "-i", "color=c=red:s=64x64:r=10:d=1", "-c:v", "libx264", "-pix_fmt", "yuv420p", source]);
+
+        const output = await generateCollage({
+          output: path.join(dir, "frame.png"),
+          width: 64,
+          height: 64,
+          duration: 1,
+          fps: 2,
+          preset: "ultrafast",
+          layout: { type: "grid" },
+          media: [{ path: source, type: "video", loop: true }],
+        });
+        expect(output).toBe(path.join(dir, "frame_%05d.png"));
+        expect(await Bun.file(path.join(dir, "frame_00001.png")).exists()).toBe(true);
+      } finally {
+        rmSync(dir, { recursive: true, force: true });
+      }
+    }, 60_000);
+
+    test("decides looping per scene for media shared between scenes", async () => {
+      const dir = mkdtempSync(path.join(tmpdir(), "scene-loop-test-"));
+      try {
+        const source = path.join(dir, "clip.mp4");
+        Bun.spawnSync(["ffmpeg", "-v", "error", "-f", "lavfi", "-i", "color=c=red:s=64x64:r=10:d=8", "-c:v", "libx264", "-pix_fmt", "yuv420p", source]);
+
+        // Scenes that list media by index share the config's item
+        const clip: MediaItem = { path: source, type: "video" };
+        const plan = await planCollage({
+          output: path.join(dir, "out.mp4"),
+          width: 64,
+          height: 64,
+          duration: 25,
+          fps: 10,
+          layout: { type: "grid" },
+          media: [clip],
+          scenes: [
+            { duration: 5, media: [clip] },
+            { duration: 20, media: [clip], transition: { type: "cut" } },
+          ],
+        }, dir);
+
+        expect(plan.scenes!.map(scene => scene.media[0]!.loop)).toEqual([false, true]);
+        expect(clip.loop).toBeUndefined();
+      } finally {
+        rmSync(dir, { recursive: true, force: true });
+      }
+    }, 60_000);
+
+    test("sends status lines to the log option instead of stdout", async () => {
+      const dir = mkdtempSync(path.join(tmpdir(), "log-test-"));
+      const stdout = spyOn(console, "log");
+      try {
+        const source = path.join(dir, "red.mp4");
+        Bun.spawnSync(["ffmpeg", "-v", "error", "-f", "lavfi", "-i", "color=c=red:s=64x64:r=10:d=1", "-c:v", "libx264", "-pix_fmt", "yuv420p", source]);
+
+        const lines: string[] = [];
+        await generateCollage({
+          output: path.join(dir, "out.mp4"),
+          width: 64,
+          height: 64,
+          duration: 1,
+          fps: 10,
+          preset: "ultrafast",
+          keepTemp: true,
+          layout: { type: "grid" },
+          media: [{ path: source, type: "video", loop: true }],
+        }, { log: line => lines.push(line) });
+
+        expect(stdout).not.toHaveBeenCalled();
+        expect(lines).toContain("Analyzing media files...");
+        const kept = lines.find(line => line.includes("Kept temp files in"));
+        expect(kept).toBeDefined();
+        rmSync(kept!.split(": ")[1]!, { recursive: true, force: true });
+      } finally {
+        stdout.mockRestore();
+        rmSync(dir, { recursive: true, force: true });
+      }
+    }, 60_000);
+  });
+
+  describe("layout warnings", () => {
+    const info = { width: 1920, height: 1080, duration: 60, hasAudio: false, fps: 30 };
+    const media = (count: number): MediaItem[] =>
+      Array.from({ length: count }, (_, i) => ({ path: `clip${i}.mp4`, type: "video" as const, info, loop: true }));
+    const config = (layout: CollageConfig["layout"], count: number): CollageConfig => ({
+      output: "out.mp4",
+      width: 1920,
+      height: 1080,
+      duration: 10,
+      fps: 30,
+      layout,
+      media: media(count),
+    });
+
+    test("reports cells the layout put past the canvas, before they are clamped", async () => {
+      const plan = await planCollage(config({ type: "grid", columns: 2, rows: 1 }, 4), "/tmp/collage");
+      expect(getLayoutWarnings(plan)).toEqual([
+        "Cell #2 (960x1080 at 0,1080) extends past the 1920x1080 canvas",
+        "Cell #3 (960x1080 at 960,1080) extends past the 1920x1080 canvas",
+      ]);
+      // Rendering still gets positions inside the canvas
+      expect(plan.positions.every(pos => pos.y + pos.height <= 1080)).toBe(true);
+    });
+
+    test("has no warnings for a valid layout", async () => {
+      const plan = await planCollage(config({ type: "grid", gap: 4 }, 4), "/tmp/collage");
+      expect(getLayoutWarnings(plan)).toEqual([]);
+    });
+  });
+
+  describe("scenes", () => {
+    test("scene transitions inherit missing settings", () => {
+      expect(getSceneTransition({})).toEqual({ type: "crossfade", duration: 1 });
+      expect(getSceneTransition({}, { type: "wipe", duration: 0.5 })).toEqual({ type: "wipe", duration: 0.5 });
+      expect(getSceneTransition({ transition: { type: "slide" } }, { type: "wipe", duration: 0.5 })).toEqual({
+        type: "slide",
+        duration: 0.5,
+      });
+    });
+
+    test("cuts do not overlap scenes", () => {
+      expect(getTransitionDuration({ type: "cut", duration: 2 })).toBe(0);
+      expect(getTransitionDuration({ type: "crossfade" })).toBe(1);
+    });
+
+    test("starts each scene at the sum of the durations before it", () => {
+      const parts = buildSceneTransitions(
+        [15, 15, 10],
+        [undefined, { type: "crossfade", duration: 1 }, { type: "wipe", duration: 0.5 }],
+        "[out]"
+      );
+      expect(parts).toEqual([
+        "[0:v][1:v]xfade=transition=fade:duration=1:offset=15[scene1]",
+        "[scene1][2:v]xfade=transition=wipeleft:duration=0.5:offset=30[out]",
+      ]);
+    });
+
+    test("joins cut scenes with concat", () => {
+      const parts = buildSceneTransitions([5, 5], [undefined, { type: "cut" }], "[pre_shader]");
+      expect(parts).toEqual(["[0:v][1:v]concat=n=2:v=1:a=0[pre_shader]"]);
+    });
+
+    test("rejects morphs between scene clips", () => {
+      expect(() => buildSceneTransitions([5, 5], [undefined, { type: "morph" }], "[out]")).toThrow("rendered as one clip");
+    });
+
+    test("morphs skip cells that have no rectangle in any scene", async () => {
+      const info = { width: 1920, height: 1080, duration: 10, hasAudio: false, fps: 30 };
+      const media: MediaItem[] = [
+        { path: "a.mp4", type: "video", info },
+        { path: "b.mp4", type: "video", info, loopMode: "pingpong" },
+      ];
+      // The custom layout only has a cell for the first item
+      const layout = { type: "custom" as const, positions: [{ x: 0, y: 0, width: 960, height: 540, mediaIndex: 0 }] };
+      const plan = await planCollage({
+        output: "out.mp4",
+        width: 1920,
+        height: 1080,
+        duration: 10,
+        fps: 30,
+        layout,
+        media,
+        scenes: [
+          { duration: 5, media },
+          { duration: 5, media, transition: { type: "morph" } },
+        ],
+      }, "/tmp/collage");
+      expect(plan.jobs.map(job => job.stage)).toEqual(["scene", "render"]);
+      expect(plan.jobs.flatMap(job => job.filterParts).join(";")).not.toContain("Infinity");
+    });
+
+    test("passes a single scene through", () => {
+      expect(buildSceneTransitions([5], [undefined], "[out]")).toEqual(["[0:v]null[out]"]);
+    });
+  });
+
   describe("Constants", () => {
     test("AVAILABLE_SHADERS has all expected shaders", () => {
       expect(AVAILABLE_SHADERS).toContain("vignette");
@@ -99,7 +805,10 @@ describe("FFmpeg Utilities", () => {
       expect(AVAILABLE_SHADERS).toContain("noise");
       expect(AVAILABLE_SHADERS).toContain("crt");
       expect(AVAILABLE_SHADERS).toContain("dreamy");
-      expect(AVAILABLE_SHADERS).toHaveLength(6);
+      expect(AVAILABLE_SHADERS).toContain("grayscale");
+      expect(AVAILABLE_SHADERS).toContain("sepia");
+      expect(AVAILABLE_SHADERS).toContain("hflip");
+      expect(AVAILABLE_SHADERS).toHaveLength(13);
     });
 
     test("AVAILABLE_LAYOUTS has all expected layouts", () => {
@@ -108,7 +817,24 @@ describe("FFmpeg Utilities", () => {
       expect(AVAILABLE_LAYOUTS).toContain("masonry");
       expect(AVAILABLE_LAYOUTS).toContain("treemap");
       expect(AVAILABLE_LAYOUTS).toContain("pack");
-      expect(AVAILABLE_LAYOUTS).toHaveLength(5);
+      expect(AVAILABLE_LAYOUTS).toContain("auto");
+      expect(AVAILABLE_LAYOUTS).toHaveLength(6);
+    });
+
+    test("AVAILABLE_FIT_MODES has all expected modes", () => {
+      expect(AVAILABLE_FIT_MODES).toEqual(["cover", "contain", "stretch"]);
+    });
+
+    test("AVAILABLE_MOTIONS has all expected motions", () => {
+      expect(AVAILABLE_MOTIONS).toEqual(["zoom-in", "zoom-out", "pan-left", "pan-right", "random"]);
+    });
+
+    test("AVAILABLE_TRANSITIONS has all expected transitions", () => {
+      expect(AVAILABLE_TRANSITIONS).toEqual(["crossfade", "wipe", "slide", "cut", "morph"]);
+    });
+
+    test("AVAILABLE_LOOP_MODES has all expected modes", () => {
+      expect(AVAILABLE_LOOP_MODES).toEqual(["restart", "pingpong", "freeze", "none"]);
     });
 
     test("ENCODING_PRESETS has valid CPU settings", () => {
@@ -1,60 +1,241 @@
-import type { MediaInfo, CollageConfig, CellPosition, ShaderType } from "./types";
+import type {
+  MediaInfo,
+  CollageConfig,
+  CellPosition,
+  ShaderType,
+  FitMode,
+  FocusPoint,
+  AudioConfig,
+  LoopMode,
+  MotionConfig,
+  MotionType,
+  ShaderSpec,
+  SceneConfig,
+  SlotsConfig,
+  TransitionConfig,
+  TransitionType,
+} from "./types";
 import type { MediaItem } from "./types";
-import { calculateLayout, mediaToLayoutItem, clampPositions, type LayoutType } from "./layout";
+import {
+  calculateLayout,
+  mediaToLayoutItem,
+  clampPositions,
+  rankLayouts,
+  validateLayout,
+  type LayoutItem,
+  type LayoutOptions,
+  type LayoutType,
+  type LayoutViolation,
+  type RankedLayout,
+} from "./layout";
+import { groupIntoTiles, getTileCellLimit } from "./tiles";
+import { createWorkspace, type Workspace } from "./workspace";
+import { createProgressParser, type ProgressCallback, type ProgressEvent } from "./progress";
+import { createRandom, pick } from "./random";
+import { assignSlots, getQueueCrossfade, getQueueTimings } from "./slots";
+import { buildCellTracks, buildKeyframeExpression, matchCells, type CellTrack, type MorphStep } from "./keyframes";
+import { getShader, resolveShaderParams, normalizeShaderChain, buildShaderChain, formatShaderChain } from "./shaders";
+import {
+  resolveCodec,
+  resolveOutputPath,
+  codecSupportsAudio,
+  getEncoderArgs,
+  getAudioEncoderArgs,
+  getContainerArgs,
+  getOutputFilter,
+  type EncodingPreset,
+  type OutputCodec,
+} from "./codecs";
 import path from "path";
 
 const IMAGE_EXTENSIONS = [".jpg", ".jpeg", ".png", ".gif", ".bmp", ".webp", ".tiff"];
 const VIDEO_EXTENSIONS = [".mp4", ".mkv", ".avi", ".mov", ".webm", ".flv", ".wmv", ".m4v"];
 
-export const AVAILABLE_SHADERS: ShaderType[] = ["vignette", "bloom", "chromatic", "noise", "crt", "dreamy"];
-export const AVAILABLE_LAYOUTS: LayoutType[] = ["grid", "dynamic", "masonry", "treemap", "pack"];
-
-// Encoding presets for different quality/speed tradeoffs
-export const ENCODING_PRESETS = {
-  ultrafast: { preset: "ultrafast", crf: 28 },
-  fast: { preset: "veryfast", crf: 26 },
-  balanced: { preset: "medium", crf: 23 },
-  quality: { preset: "slow", crf: 20 },
-  best: { preset: "veryslow", crf: 18 },
-} as const;
-
-// NVENC presets (p1=fastest, p7=slowest/best quality)
-export const NVENC_PRESETS = {
-  ultrafast: { preset: "p1", cq: 30 },
-  fast: { preset: "p2", cq: 26 },
-  balanced: { preset: "p4", cq: 23 },
-  quality: { preset: "p6", cq: 20 },
-  best: { preset: "p7", cq: 18 },
-} as const;
-
-export type EncodingPreset = keyof typeof ENCODING_PRESETS;
-
-// Get FFmpeg filter chain for each shader effect
+// Built-in shaders; plugins from loadShaderPlugins() join these in the shaders registry
+export const AVAILABLE_SHADERS: ShaderType[] = [
+  "vignette",
+  "bloom",
+  "chromatic",
+  "noise",
+  "crt",
+  "dreamy",
+  "grayscale",
+  "sepia",
+  "brightness",
+  "contrast",
+  "saturation",
+  "blur",
+  "hflip",
+];
+export const AVAILABLE_LAYOUTS: LayoutType[] = ["grid", "dynamic", "masonry", "treemap", "pack", "auto"];
+export const AVAILABLE_FIT_MODES: FitMode[] = ["cover", "contain", "stretch"];
+export const AVAILABLE_AUDIO_MODES: AudioConfig["mode"][] = ["none", "source", "mix", "track"];
+export const AVAILABLE_LOOP_MODES: LoopMode[] = ["restart", "pingpong", "freeze", "none"];
+export const AVAILABLE_TRANSITIONS: TransitionType[] = ["crossfade", "wipe", "slide", "cut", "morph"];
+export const AVAILABLE_MOTIONS: MotionType[] = ["zoom-in", "zoom-out", "pan-left", "pan-right", "random"];
+
+const DEFAULT_MOTION_INTENSITY = 0.15;
+
+// Stills are scaled up before zoompan so slow motion doesn't step in whole pixels
+const MOTION_SUPERSAMPLE = 4;
+
+// Encoding presets live with the codec definitions; re-exported for backwards compatibility
+export { ENCODING_PRESETS, NVENC_PRESETS, type EncodingPreset } from "./codecs";
+
+/**
+ * Get the FFmpeg filter chain for a shader effect with its default parameters.
+ * Shader definitions and chaining live in the shaders module.
+ */
 export function getShaderFilter(shader: ShaderType, width: number, height: number): string {
-  switch (shader) {
-    case "vignette":
-      return "vignette=PI/4:0.5";
+  const definition = getShader(shader);
+  if (!definition) return "";
+  return definition.build(resolveShaderParams({ name: shader }), { width, height, label: name => `[${name}]` });
+}
 
-    case "bloom":
-      return "split[a][b];[b]gblur=sigma=20,curves=all='0/0 0.5/0.7 1/1'[blur];[a][blur]blend=all_mode=screen:all_opacity=0.3";
+/**
+ * Get the CPU filter chain that sizes a source into a cell.
+ * - cover: scale to fill the cell, cropping around the focus point
+ * - contain: scale to fit inside the cell, letterboxing with the background
+ * - stretch: scale to the exact cell size, ignoring aspect ratio
+ */
+export function getFitFilter(
+  fit: FitMode,
+  width: number,
+  height: number,
+  focus?: FocusPoint,
+  background: string = "black"
+): string {
+  switch (fit) {
+    case "cover": {
+      const { x, y } = normalizeFocus(focus);
+      return `scale=${width}:${height}:force_original_aspect_ratio=increase:flags=lanczos,crop=${width}:${height}:(iw-ow)*${x}:(ih-oh)*${y}`;
+    }
 
-    case "chromatic":
-      return "rgbashift=rh=-4:rv=0:gh=0:gv=0:bh=4:bv=0:edge=smear";
+    case "contain":
+      return `scale=${width}:${height}:force_original_aspect_ratio=decrease:flags=lanczos,pad=${width}:${height}:(ow-iw)/2:(oh-ih)/2:color=${escapeFilterValue(background)}`;
 
-    case "noise":
-      return "noise=alls=15:allf=t+u";
+    case "stretch":
+    default:
+      return `scale=${width}:${height}:flags=lanczos`;
+  }
+}
 
-    case "crt":
-      return `format=rgb24,split[a][b];[a]curves=all='0/0.05 0.5/0.5 1/0.95'[c];[b]scale=${width}:${height * 2}:flags=neighbor,scale=${width}:${height}:flags=neighbor[scan];[c][scan]blend=all_mode=multiply:all_opacity=0.15,vignette=PI/3:0.4,noise=alls=8:allf=t`;
+/**
+ * Get the CPU filter that reshapes a source to the cell aspect ratio
+ * before it is uploaded for scale_cuda (which can only stretch).
+ * Returns an empty string for stretch mode.
+ */
+export function getCudaFitPrefilter(
+  fit: FitMode,
+  width: number,
+  height: number,
+  focus?: FocusPoint,
+  background: string = "black"
+): string {
+  const aspect = (width / height).toFixed(4);
+
+  switch (fit) {
+    case "cover": {
+      const { x, y } = normalizeFocus(focus);
+      return `crop=w=${escapeFilterValue(`min(iw,ih*${aspect})`)}:h=${escapeFilterValue(`min(ih,iw/${aspect})`)}:x=(iw-ow)*${x}:y=(ih-oh)*${y}`;
+    }
 
-    case "dreamy":
-      return "split[a][b];[b]gblur=sigma=30[blur];[a][blur]blend=all_mode=softlight:all_opacity=0.5,eq=saturation=0.8:brightness=0.05,vignette=PI/4:0.3";
+    case "contain":
+      return `pad=w=${escapeFilterValue(`max(iw,ih*${aspect})`)}:h=${escapeFilterValue(`max(ih,iw/${aspect})`)}:x=(ow-iw)/2:y=(oh-ih)/2:color=${escapeFilterValue(background)}`;
 
+    case "stretch":
     default:
       return "";
   }
 }
 
+/**
+ * Escape a value for use as a filter option inside a filter graph.
+ * Filter graphs are unescaped twice: once when the graph is split into
+ * filters (\\ ' [ ] , ;) and once when a filter's options are parsed (\\ ' :).
+ */
+export function escapeFilterValue(value: string): string {
+  const optionLevel = value.replace(/[\\':]/g, "\\$&");
+  return optionLevel.replace(/[\\'\[\],;]/g, "\\$&");
+}
+
+/**
+ * Get the filter chain that renders a still image with pan/zoom motion.
+ * The image is fitted to a supersampled cell, then zoompan writes one
+ * cell-sized frame per output frame from that single input frame.
+ */
+export function getMotionFilter(
+  item: MediaItem,
+  motion: MotionConfig,
+  width: number,
+  height: number,
+  duration: number,
+  fps: number,
+  fit: FitMode,
+  background: string
+): string {
+  const intensity = motion.intensity ?? DEFAULT_MOTION_INTENSITY;
+  const frames = Math.max(2, Math.round(duration * fps));
+  const progress = `on/${frames - 1}`;
+  const { x: fx, y: fy } = normalizeFocus(item.focus);
+
+  let zoom: string;
+  let x: string;
+  switch (motion.type) {
+    case "zoom-out":
+      zoom = `1+${intensity}*(1-${progress})`;
+      x = `(iw-iw/zoom)*${fx}`;
+      break;
+    case "pan-left":
+      zoom = `${1 + intensity}`;
+      x = `(iw-iw/zoom)*(1-${progress})`;
+      break;
+    case "pan-right":
+      zoom = `${1 + intensity}`;
+      x = `(iw-iw/zoom)*${progress}`;
+      break;
+    case "zoom-in":
+    default:
+      zoom = `1+${intensity}*${progress}`;
+      x = `(iw-iw/zoom)*${fx}`;
+      break;
+  }
+  const y = `(ih-ih/zoom)*${fy}`;
+
+  return [
+    getDisplayScaleFilter(item.info),
+    getFitFilter(fit, width * MOTION_SUPERSAMPLE, height * MOTION_SUPERSAMPLE, item.focus, background),
+    `zoompan=z='${zoom}':x='${x}':y='${y}':d=${frames}:s=${width}x${height}:fps=${fps}`,
+  ]
+    .filter(Boolean)
+    .join(",");
+}
+
+/**
+ * Apply the collage motion to still images that don't set their own and
+ * replace "random" with a concrete motion. Picks come from the seed, so the
+ * same config always moves the same way.
+ */
+export function resolveMotions(media: MediaItem[], motion?: MotionConfig): MediaItem[] {
+  const random = createRandom(motion?.seed ?? 0);
+  const concrete = AVAILABLE_MOTIONS.filter(m => m !== "random");
+
+  return media.map(item => {
+    const itemMotion = item.motion ?? motion;
+    if (!itemMotion || isTimedMedia(item)) return item;
+    if (itemMotion.type !== "random") return { ...item, motion: itemMotion };
+
+    const itemRandom = item.motion?.seed !== undefined ? createRandom(item.motion.seed) : random;
+    return { ...item, motion: { ...itemMotion, type: pick(itemRandom, concrete) } };
+  });
+}
+
+function normalizeFocus(focus?: FocusPoint): FocusPoint {
+  const clamp = (value: number | undefined) =>
+    Math.min(1, Math.max(0, Number.isFinite(value) ? value! : 0.5));
+  return { x: clamp(focus?.x), y: clamp(focus?.y) };
+}
+
 export function getMediaType(filePath: string): "video" | "image" | null {
   const ext = filePath.toLowerCase().slice(filePath.lastIndexOf("."));
   if (IMAGE_EXTENSIONS.includes(ext)) return "image";
@@ -63,11 +244,25 @@ export function getMediaType(filePath: string): "video" | "image" | null {
 }
 
 /**
- * Get media info for a single file
+ * Get media info for a single file.
+ * Images are probed too, counting frames so animated GIF/WebP files can be
+ * played as timed media instead of a single still frame.
  */
 export async function getMediaInfo(filePath: string): Promise<MediaInfo> {
-  const result = await Bun.$`ffprobe -v quiet -print_format json -show_format -show_streams ${filePath}`.json();
+  const isImage = getMediaType(filePath) === "image";
+  const result = isImage
+    ? await Bun.$`ffprobe -v quiet -print_format json -count_packets -show_format -show_streams ${filePath}`.json()
+    : await Bun.$`ffprobe -v quiet -print_format json -show_format -show_streams ${filePath}`.json();
 
+  return parseProbeResult(result, isImage, filePath);
+}
+
+/**
+ * Convert ffprobe JSON output into MediaInfo.
+ * Display dimensions account for rotation metadata (rotate tag or display
+ * matrix side data) and non-square sample aspect ratios.
+ */
+export function parseProbeResult(result: any, isImage: boolean = false, filePath: string = "input"): MediaInfo {
   const videoStream = result.streams?.find((s: any) => s.codec_type === "video");
   const audioStream = result.streams?.find((s: any) => s.codec_type === "audio");
 
@@ -81,15 +276,213 @@ export async function getMediaInfo(filePath: string): Promise<MediaInfo> {
     fps = den ? num / den : num;
   }
 
+  const duration = parseFloat(result.format?.duration || videoStream.duration || "0") || 0;
+  const width = videoStream.width || 1920;
+  const height = videoStream.height || 1080;
+  const rotation = getStreamRotation(videoStream);
+  const sampleAspectRatio = parseRatio(videoStream.sample_aspect_ratio);
+
+  // Stretch anamorphic pixels horizontally, then swap sides for portrait rotations
+  const sarWidth = Math.round(width * sampleAspectRatio);
+  const rotated = rotation === 90 || rotation === 270;
+  const geometry = {
+    width,
+    height,
+    displayWidth: rotated ? height : sarWidth,
+    displayHeight: rotated ? sarWidth : height,
+    rotation,
+    sampleAspectRatio,
+  };
+
+  if (isImage) {
+    const frameCount = parseInt(videoStream.nb_read_packets || videoStream.nb_frames || "1", 10) || 1;
+    const animated = frameCount > 1 && duration > 0;
+
+    return {
+      ...geometry,
+      // GIF timestamps use a 1/100 timebase, so derive the real rate from frame count
+      duration: animated ? duration : 0,
+      hasAudio: false,
+      fps: animated ? frameCount / duration : fps,
+      frameCount,
+      animated,
+    };
+  }
+
   return {
-    width: videoStream.width || 1920,
-    height: videoStream.height || 1080,
-    duration: parseFloat(result.format?.duration || videoStream.duration || "0"),
+    ...geometry,
+    duration,
     hasAudio: !!audioStream,
     fps,
   };
 }
 
+/**
+ * Read clockwise display rotation from a stream, normalized to 0/90/180/270.
+ * Display matrix rotation is counter-clockwise, the legacy rotate tag clockwise.
+ */
+function getStreamRotation(stream: any): number {
+  let degrees = 0;
+
+  const matrix = stream.side_data_list?.find((d: any) => typeof d.rotation === "number" || typeof d.rotation === "string");
+  if (matrix) {
+    degrees = -Number(matrix.rotation);
+  } else if (stream.tags?.rotate) {
+    degrees = Number(stream.tags.rotate);
+  }
+
+  if (!Number.isFinite(degrees)) return 0;
+  return (((Math.round(degrees / 90) * 90) % 360) + 360) % 360;
+}
+
+function parseRatio(value: string | undefined): number {
+  if (!value) return 1;
+  const [num, den] = value.split(":").map(Number);
+  if (!num || !den) return 1;
+  return num / den;
+}
+
+/**
+ * Get the filter that resamples non-square pixels to the display size.
+ * Rotation is applied by ffmpeg's autorotate on decode, so only the sample
+ * aspect ratio needs handling. Returns an empty string for square pixels.
+ */
+export function getDisplayScaleFilter(info: MediaInfo | undefined): string {
+  if (!info?.displayWidth || !info.displayHeight) return "";
+  if (!info.sampleAspectRatio || Math.abs(info.sampleAspectRatio - 1) < 0.001) return "";
+  return `scale=${info.displayWidth}:${info.displayHeight},setsar=1`;
+}
+
+/**
+ * Whether an item plays over time (videos and animated images)
+ */
+export function isTimedMedia(item: MediaItem): boolean {
+  return item.type === "video" || !!item.info?.animated;
+}
+
+/**
+ * Seconds an item plays before it ends or loops, after trimming and speed
+ */
+export function getPlaybackDuration(item: MediaItem): number {
+  const sourceDuration = item.info?.duration ?? 0;
+  const start = item.start ?? 0;
+  const end = Math.min(item.end ?? sourceDuration, sourceDuration);
+  return Math.max(0, end - start) / (item.speed ?? 1);
+}
+
+/**
+ * How an item repeats once it ends. Items that don't need to loop play
+ * through once and hold their last frame, unless loopMode is "none".
+ */
+export function getLoopMode(item: MediaItem): LoopMode {
+  if (item.loop === false) {
+    return item.loopMode === "none" ? "none" : "freeze";
+  }
+  return item.loopMode ?? "restart";
+}
+
+/**
+ * Whether a looping item has to be rendered to an intermediate clip first.
+ * -stream_loop always restarts at the beginning of the file, so trimmed
+ * loops and ping-pong loops are prepared as their own clips.
+ */
+export function needsPreparedClip(item: MediaItem): boolean {
+  if (!isTimedMedia(item)) return false;
+  const mode = getLoopMode(item);
+  return mode === "pingpong" || (mode === "restart" && (!!item.start || item.end !== undefined));
+}
+
+/**
+ * Get the input arguments for an item. Restarting loops are read with
+ * -stream_loop, which keeps memory constant for clips of any length.
+ * Trims seek on the input, so only the selected part of a long file is decoded.
+ */
+export function getInputArgs(item: MediaItem): string[] {
+  const args: string[] = [];
+  if (isTimedMedia(item)) {
+    if (getLoopMode(item) === "restart" && !needsPreparedClip(item)) {
+      args.push("-stream_loop", "-1");
+    }
+    if (item.start) {
+      args.push("-ss", String(item.start));
+    }
+    if (item.end !== undefined) {
+      args.push("-t", String(item.end - (item.start ?? 0)));
+    }
+  }
+  args.push("-i", item.path);
+  return args;
+}
+
+/**
+ * Get the video filter that changes playback speed ("" at normal speed)
+ */
+export function getSpeedFilter(speed: number | undefined): string {
+  if (!speed || speed === 1) return "";
+  return `setpts=(PTS-STARTPTS)/${speed}`;
+}
+
+/**
+ * Get the audio filter that changes playback speed ("" at normal speed).
+ * atempo is chained in steps within 0.5-2 so older ffmpeg builds accept it.
+ */
+export function getTempoFilter(speed: number | undefined): string {
+  if (!speed || speed === 1) return "";
+  const steps: string[] = [];
+  let remaining = speed;
+  while (remaining > 2) {
+    steps.push("atempo=2");
+    remaining /= 2;
+  }
+  while (remaining < 0.5) {
+    steps.push("atempo=0.5");
+    remaining /= 0.5;
+  }
+  steps.push(`atempo=${Number(remaining.toFixed(6))}`);
+  return steps.join(",");
+}
+
+// Longest crossfade used to join the end of a seamless loop to its start (seconds)
+const SEAMLESS_FADE = 1;
+
+/**
+ * Get the crossfade length for a seamless loop of the given duration.
+ * Short outputs use a quarter of their length so most frames stay unblended.
+ */
+export function getSeamlessFade(duration: number): number {
+  return Math.min(SEAMLESS_FADE, duration / 4);
+}
+
+/**
+ * Build filter chains that make a cell loop seamlessly.
+ * The chain must produce duration + fade seconds. Its first `fade` seconds
+ * are faded in over the last `fade` seconds of the rest, so the final frame
+ * continues into the first.
+ */
+export function buildSeamlessLoop(chain: string, label: string, duration: number, fade: number): string[] {
+  const start = duration - fade;
+  return [
+    `${chain},split[${label}_body][${label}_head]`,
+    `[${label}_body]trim=start=${fade},setpts=PTS-STARTPTS[${label}_main]`,
+    `[${label}_head]trim=duration=${fade},setpts=PTS-STARTPTS+${start}/TB,format=yuva420p,fade=t=in:st=${start}:d=${fade}:alpha=1[${label}_wrap]`,
+    `[${label}_main][${label}_wrap]overlay=eof_action=pass[${label}]`,
+  ];
+}
+
+/**
+ * Audio counterpart of buildSeamlessLoop: crossfades the start of the
+ * chain into its end.
+ */
+function buildSeamlessAudioLoop(chain: string, label: string, duration: number, fade: number): string[] {
+  const start = duration - fade;
+  return [
+    `${chain},asplit[${label}_body][${label}_head]`,
+    `[${label}_body]atrim=start=${fade},asetpts=PTS-STARTPTS,afade=t=out:st=${start}:d=${fade}[${label}_main]`,
+    `[${label}_head]atrim=duration=${fade},asetpts=PTS-STARTPTS,afade=t=in:d=${fade},adelay=${Math.round(start * 1000)}:all=1[${label}_wrap]`,
+    `[${label}_main][${label}_wrap]amix=inputs=2:duration=first:dropout_transition=0:normalize=0[${label}]`,
+  ];
+}
+
 /**
  * Get media info for multiple files in parallel
  * Significantly faster than sequential calls for large media collections
@@ -123,30 +516,36 @@ export async function getMediaInfoBatch(filePaths: string[]): Promise<Map<string
   return results;
 }
 
+// Items whose info was probed here; whether they loop follows the duration they play for
+const probedItems = new WeakSet<MediaItem>();
+
 /**
  * Prepare media items with their info loaded in parallel
  */
 export async function prepareMediaItems(media: MediaItem[], duration: number): Promise<MediaItem[]> {
-  // Get all video paths that need info
-  const videoPaths = media
-    .filter(item => item.type === "video" && !item.info)
+  // Get all paths that need info (images too, for their aspect ratio)
+  const paths = media
+    .filter(item => !item.info)
     .map(item => item.path);
 
   // Fetch info in parallel
-  const infoMap = await getMediaInfoBatch(videoPaths);
+  const infoMap = await getMediaInfoBatch([...new Set(paths)]);
 
-  // Update media items with fetched info
+  // Cache fetched info on the media items
   for (const item of media) {
-    if (item.type === "video" && !item.info) {
+    if (!item.info) {
       const info = infoMap.get(item.path);
       if (info) {
         item.info = info;
-        item.loop = info.duration < duration;
+        probedItems.add(item);
       }
     }
   }
 
-  return media;
+  // Scenes share items, so looping is decided on a copy for this duration
+  return media.map(item =>
+    probedItems.has(item) && isTimedMedia(item) ? { ...item, loop: getPlaybackDuration(item) < duration } : item
+  );
 }
 
 // Re-export layout functions for backwards compatibility
@@ -182,19 +581,45 @@ export async function checkCudaAvailable(): Promise<boolean> {
   }
 }
 
+/**
+ * Get the filter that holds a clip's last frame once it ends ("" otherwise)
+ */
+function getHoldFilter(item: MediaItem): string {
+  return getLoopMode(item) === "freeze" ? "tpad=stop_mode=clone:stop=-1" : "";
+}
+
+/**
+ * Get the overlay option for when a cell's clip ends. By default overlay
+ * repeats the last frame; loopMode "none" lets the background show instead.
+ */
+function getEofOption(item: MediaItem | undefined): string {
+  return item && isTimedMedia(item) && getLoopMode(item) === "none" ? ":eof_action=pass" : "";
+}
+
+interface FilterConfig {
+  width: number;
+  height: number;
+  duration: number;
+  fps: number;
+  background: string;
+  shaders: ShaderSpec[]; // Validated shader chain applied to the composite
+  fit: FitMode;
+  seamlessFade?: number; // Crossfade length for seamless loops (0 = off)
+}
+
 /**
  * Build CPU-based filter complex (original implementation)
  */
 function buildCpuFilterComplex(
   media: MediaItem[],
   positions: CellPosition[],
-  config: { width: number; height: number; duration: number; fps: number; background: string; shader?: string }
+  config: FilterConfig
 ): { filterParts: string[]; sortedPositions: CellPosition[] } {
-  const { width, height, duration, fps, background, shader } = config;
+  const { width, height, duration, fps, background, shaders, fit, seamlessFade = 0 } = config;
   const filterParts: string[] = [];
 
   // Add background
-  filterParts.push(`color=c=${background}:s=${width}x${height}:d=${duration}:r=${fps}[bg]`);
+  filterParts.push(`color=c=${escapeFilterValue(background)}:s=${width}x${height}:d=${duration}:r=${fps}[bg]`);
 
   for (let i = 0; i < media.length; i++) {
     const item = media[i];
@@ -202,18 +627,44 @@ function buildCpuFilterComplex(
     if (!pos || !item) continue;
 
     const inputLabel = `[${i}:v]`;
-    const scaledLabel = `[v${i}]`;
-
-    if (item.type === "image") {
+    const effects = item.effects ?? [];
+    // Cells with their own effects run through them on the way to [v<i>]
+    const cellLabel = effects.length > 0 ? `v${i}_fx` : `v${i}`;
+    const scaledLabel = `[${cellLabel}]`;
+    const displayFilter = getDisplayScaleFilter(item.info);
+    const scaleFilter = [displayFilter, getFitFilter(item.fit || fit, pos.width, pos.height, item.focus, background)]
+      .filter(Boolean)
+      .join(",");
+
+    if (!isTimedMedia(item) && item.motion) {
+      // Moving stills play like clips, so they take part in seamless loops
+      const motionDuration = duration + seamlessFade;
+      const motionFilter = getMotionFilter(item, item.motion, pos.width, pos.height, motionDuration, fps, item.fit || fit, background);
+      const chain = `${inputLabel}${motionFilter},trim=duration=${motionDuration},setpts=PTS-STARTPTS`;
+      if (seamlessFade > 0) {
+        filterParts.push(...buildSeamlessLoop(chain, cellLabel, duration, seamlessFade));
+      } else {
+        filterParts.push(`${chain}${scaledLabel}`);
+      }
+    } else if (!isTimedMedia(item)) {
       filterParts.push(
-        `${inputLabel}loop=loop=-1:size=1:start=0,setpts=N/FRAME_RATE/TB,scale=${pos.width}:${pos.height}:flags=lanczos,trim=duration=${duration},setpts=PTS-STARTPTS${scaledLabel}`
+        `${inputLabel}loop=loop=-1:size=1:start=0,setpts=N/FRAME_RATE/TB,${scaleFilter},trim=duration=${duration},setpts=PTS-STARTPTS${scaledLabel}`
       );
     } else {
-      const loopFilter = item.loop !== false ? `loop=loop=-1:size=10000:start=0,` : "";
-      const scaleFilter = `scale=${pos.width}:${pos.height}:flags=lanczos`;
-      filterParts.push(
-        `${inputLabel}${loopFilter}${scaleFilter},trim=duration=${duration},setpts=PTS-STARTPTS${scaledLabel}`
-      );
+      // Restarting loops come from -stream_loop on the input
+      const playback = [getSpeedFilter(item.speed), scaleFilter, getHoldFilter(item)].filter(Boolean).join(",");
+      if (seamlessFade > 0) {
+        const chain = `${inputLabel}${playback},trim=duration=${duration + seamlessFade},setpts=PTS-STARTPTS`;
+        filterParts.push(...buildSeamlessLoop(chain, cellLabel, duration, seamlessFade));
+      } else {
+        filterParts.push(
+          `${inputLabel}${playback},trim=duration=${duration},setpts=PTS-STARTPTS${scaledLabel}`
+        );
+      }
+    }
+
+    if (effects.length > 0) {
+      filterParts.push(...buildShaderChain(effects, pos.width, pos.height, scaledLabel, `[v${i}]`, `fx${i}_`));
     }
   }
 
@@ -226,19 +677,16 @@ function buildCpuFilterComplex(
     if (!pos) continue;
 
     const isLast = i === sortedPositions.length - 1;
-    const outputLabel = isLast ? (shader ? "[pre_shader]" : "[out]") : `[tmp${i}]`;
+    const outputLabel = isLast ? (shaders.length > 0 ? "[pre_shader]" : "[out]") : `[tmp${i}]`;
     filterParts.push(
-      `${lastLabel}[v${pos.mediaIndex}]overlay=x=${pos.x}:y=${pos.y}:shortest=0${outputLabel}`
+      `${lastLabel}[v${pos.mediaIndex}]overlay=x=${pos.x}:y=${pos.y}:shortest=0${getEofOption(media[pos.mediaIndex])}${outputLabel}`
     );
     lastLabel = outputLabel;
   }
 
-  // Apply shader effect if specified
-  if (shader && AVAILABLE_SHADERS.includes(shader as ShaderType)) {
-    const shaderFilter = getShaderFilter(shader as ShaderType, width, height);
-    if (shaderFilter) {
-      filterParts.push(`[pre_shader]${shaderFilter}[out]`);
-    }
+  // Apply shader effects in order
+  if (shaders.length > 0) {
+    filterParts.push(...buildShaderChain(shaders, width, height, "[pre_shader]", "[out]"));
   }
 
   return { filterParts, sortedPositions };
@@ -252,15 +700,15 @@ function buildCpuFilterComplex(
 function buildCudaFilterComplex(
   media: MediaItem[],
   positions: CellPosition[],
-  config: { width: number; height: number; duration: number; fps: number; background: string; shader?: string }
+  config: FilterConfig
 ): { filterParts: string[]; sortedPositions: CellPosition[] } {
-  const { width, height, duration, fps, background, shader } = config;
+  const { width, height, duration, fps, background, shaders, fit, seamlessFade = 0 } = config;
   const filterParts: string[] = [];
 
   // Create background and upload to CUDA
   // Use yuv420p format for better compatibility
   filterParts.push(
-    `color=c=${background}:s=${width}x${height}:d=${duration}:r=${fps},format=yuv420p,hwupload_cuda[bg_cuda]`
+    `color=c=${escapeFilterValue(background)}:s=${width}x${height}:d=${duration}:r=${fps},format=yuv420p,hwupload_cuda[bg_cuda]`
   );
 
   for (let i = 0; i < media.length; i++) {
@@ -270,18 +718,74 @@ function buildCudaFilterComplex(
 
     const inputLabel = `[${i}:v]`;
     const scaledLabel = `[v${i}_cuda]`;
-
-    if (item.type === "image") {
-      // Images: loop, scale on CPU first (for lanczos quality), then upload to CUDA
+    const itemFit = item.fit || fit;
+    const displayFilter = getDisplayScaleFilter(item.info);
+
+    // Per-item effects run on the CPU just before upload
+    const effects = item.effects ?? [];
+    const uploadLabel = (label: string, gpuFilter: string): string[] =>
+      effects.length > 0
+        ? [
+            ...buildShaderChain(effects, pos.width, pos.height, label, `[v${i}_graded]`, `fx${i}_`),
+            `[v${i}_graded]${gpuFilter}${scaledLabel}`,
+          ]
+        : [`${label}${gpuFilter}${scaledLabel}`];
+    const uploadChain = (chain: string, gpuFilter: string): string[] =>
+      effects.length > 0
+        ? [`${chain}[v${i}_fx]`, ...uploadLabel(`[v${i}_fx]`, gpuFilter)]
+        : [`${chain},${gpuFilter}${scaledLabel}`];
+
+    if (!isTimedMedia(item) && item.motion) {
+      // Moving stills: zoompan on CPU at the cell size, then upload to CUDA
+      const motionDuration = duration + seamlessFade;
+      const motionFilter = getMotionFilter(item, item.motion, pos.width, pos.height, motionDuration, fps, itemFit, background);
+      const chain = `${inputLabel}${motionFilter},trim=duration=${motionDuration},setpts=PTS-STARTPTS`;
+      if (seamlessFade > 0) {
+        filterParts.push(
+          ...buildSeamlessLoop(chain, `v${i}_loop`, duration, seamlessFade),
+          ...uploadLabel(`[v${i}_loop]`, "format=yuv420p,hwupload_cuda")
+        );
+      } else {
+        filterParts.push(...uploadChain(chain, "format=yuv420p,hwupload_cuda"));
+      }
+    } else if (!isTimedMedia(item)) {
+      // Still images: loop, scale on CPU first (for lanczos quality), then upload to CUDA
+      const scaleFilter = [displayFilter, getFitFilter(itemFit, pos.width, pos.height, item.focus, background)]
+        .filter(Boolean)
+        .join(",");
       filterParts.push(
-        `${inputLabel}loop=loop=-1:size=1:start=0,setpts=N/FRAME_RATE/TB,scale=${pos.width}:${pos.height}:flags=lanczos,trim=duration=${duration},setpts=PTS-STARTPTS,format=yuv420p,hwupload_cuda${scaledLabel}`
+        ...uploadChain(
+          `${inputLabel}loop=loop=-1:size=1:start=0,setpts=N/FRAME_RATE/TB,${scaleFilter},trim=duration=${duration},setpts=PTS-STARTPTS`,
+          "format=yuv420p,hwupload_cuda"
+        )
       );
     } else {
-      // Videos: CPU filters first (loop, trim, setpts), then upload to CUDA for scaling
-      const loopFilter = item.loop !== false ? `loop=loop=-1:size=10000:start=0,` : "";
-      filterParts.push(
-        `${inputLabel}${loopFilter}trim=duration=${duration},setpts=PTS-STARTPTS,format=yuv420p,hwupload_cuda,scale_cuda=${pos.width}:${pos.height}${scaledLabel}`
-      );
+      // Videos and animated images: CPU filters first (loop, trim, setpts, aspect crop/pad), then upload to CUDA for scaling
+      // Restarting loops come from -stream_loop on the input
+      const prefilter = [
+        getSpeedFilter(item.speed),
+        displayFilter,
+        getCudaFitPrefilter(itemFit, pos.width, pos.height, item.focus, background),
+        getHoldFilter(item),
+      ]
+        .filter(Boolean)
+        .join(",");
+      const fitFilter = prefilter ? `${prefilter},` : "";
+      if (seamlessFade > 0) {
+        // Loop crossfade runs on the CPU before upload
+        const chain = `${inputLabel}${fitFilter}trim=duration=${duration + seamlessFade},setpts=PTS-STARTPTS`;
+        filterParts.push(
+          ...buildSeamlessLoop(chain, `v${i}_loop`, duration, seamlessFade),
+          ...uploadLabel(`[v${i}_loop]`, `format=yuv420p,hwupload_cuda,scale_cuda=${pos.width}:${pos.height}`)
+        );
+      } else {
+        filterParts.push(
+          ...uploadChain(
+            `${inputLabel}${fitFilter}trim=duration=${duration},setpts=PTS-STARTPTS`,
+            `format=yuv420p,hwupload_cuda,scale_cuda=${pos.width}:${pos.height}`
+          )
+        );
+      }
     }
   }
 
@@ -297,20 +801,18 @@ function buildCudaFilterComplex(
     const outputLabel = isLast ? "[composite_cuda]" : `[tmp${i}_cuda]`;
 
     filterParts.push(
-      `${lastLabel}[v${pos.mediaIndex}_cuda]overlay_cuda=x=${pos.x}:y=${pos.y}${outputLabel}`
+      `${lastLabel}[v${pos.mediaIndex}_cuda]overlay_cuda=x=${pos.x}:y=${pos.y}${getEofOption(media[pos.mediaIndex])}${outputLabel}`
     );
     lastLabel = outputLabel;
   }
 
   // Always download from CUDA to CPU for encoding compatibility
   // This ensures NVENC gets a format it can handle
-  if (shader && AVAILABLE_SHADERS.includes(shader as ShaderType)) {
-    const shaderFilter = getShaderFilter(shader as ShaderType, width, height);
-    if (shaderFilter) {
-      filterParts.push(`[composite_cuda]hwdownload,format=yuv420p,${shaderFilter}[out]`);
-    } else {
-      filterParts.push(`[composite_cuda]hwdownload,format=yuv420p[out]`);
-    }
+  if (shaders.length > 0) {
+    filterParts.push(
+      `[composite_cuda]hwdownload,format=yuv420p[pre_shader]`,
+      ...buildShaderChain(shaders, width, height, "[pre_shader]", "[out]")
+    );
   } else {
     filterParts.push(`[composite_cuda]hwdownload,format=yuv420p[out]`);
   }
@@ -318,7 +820,561 @@ function buildCudaFilterComplex(
   return { filterParts, sortedPositions };
 }
 
-export async function generateCollage(config: CollageConfig): Promise<void> {
+/**
+ * Build the audio part of the filter graph.
+ * Audio sources are added as their own inputs (starting at firstInputIndex)
+ * so they are independent of how the video inputs are arranged.
+ * Returns null when the collage should be silent. With a seamless fade,
+ * each source is crossfaded into its own start like the video cells.
+ */
+export function buildAudioFilterComplex(
+  media: MediaItem[],
+  audio: AudioConfig | undefined,
+  duration: number,
+  firstInputIndex: number,
+  seamlessFade: number = 0
+): { inputs: string[]; filterParts: string[] } | null {
+  if (!audio || audio.mode === "none") return null;
+
+  const inputs: string[] = [];
+  const filterParts: string[] = [];
+  const volume = audio.volume ?? 1;
+
+  if (audio.mode === "track") {
+    if (!audio.track) return null;
+    inputs.push("-stream_loop", "-1", "-i", audio.track);
+    if (seamlessFade > 0) {
+      // Fading out to silence would break the loop
+      const chain = `[${firstInputIndex}:a]atrim=duration=${duration + seamlessFade},asetpts=PTS-STARTPTS,volume=${volume}`;
+      filterParts.push(...buildSeamlessAudioLoop(chain, "aout", duration, seamlessFade));
+      return { inputs, filterParts };
+    }
+    const fadeOut = Math.min(audio.fadeOut ?? 2, duration);
+    const fadeFilter = fadeOut > 0 ? `,afade=t=out:st=${duration - fadeOut}:d=${fadeOut}` : "";
+    filterParts.push(
+      `[${firstInputIndex}:a]atrim=duration=${duration},asetpts=PTS-STARTPTS,volume=${volume}${fadeFilter}[aout]`
+    );
+    return { inputs, filterParts };
+  }
+
+  const sources = audio.mode === "source"
+    ? media.filter((item, i) => i === audio.from && item.info?.hasAudio)
+    : media.filter(item => item.info?.hasAudio);
+
+  if (sources.length === 0) return null;
+
+  const fadeOut = Math.min(audio.fadeOut ?? 0, duration);
+  const fadeFilter = fadeOut > 0 ? `,afade=t=out:st=${duration - fadeOut}:d=${fadeOut}` : "";
+  const labels: string[] = [];
+
+  sources.forEach((item, i) => {
+    const inputIndex = firstInputIndex + i;
+    // Looping comes from -stream_loop on the input, like the video
+    const tempoFilter = getTempoFilter(item.speed);
+    const playback = tempoFilter ? `${tempoFilter},` : "";
+    // A mix applies the overall volume after amix, which only runs for several sources
+    const itemVolume = audio.mode !== "mix" ? volume : sources.length === 1 ? (item.volume ?? 1) * volume : (item.volume ?? 1);
+    // Pad short clips with silence so every branch lasts the full duration
+    const label = sources.length === 1 ? "[aout]" : `[a${i}]`;
+    const tail = sources.length === 1 ? fadeFilter : "";
+    inputs.push(...getInputArgs(item));
+    if (seamlessFade > 0) {
+      const chain = `[${inputIndex}:a]${playback}atrim=duration=${duration + seamlessFade},asetpts=PTS-STARTPTS,volume=${itemVolume},apad=whole_dur=${duration + seamlessFade}`;
+      const loopLabel = label.slice(1, -1);
+      filterParts.push(...buildSeamlessAudioLoop(chain, `${loopLabel}_loop`, duration, seamlessFade));
+      filterParts.push(`[${loopLabel}_loop]anull${tail}${label}`);
+    } else {
+      filterParts.push(
+        `[${inputIndex}:a]${playback}atrim=duration=${duration},asetpts=PTS-STARTPTS,volume=${itemVolume},apad=whole_dur=${duration}${tail}${label}`
+      );
+    }
+    labels.push(label);
+  });
+
+  if (sources.length > 1) {
+    filterParts.push(
+      `${labels.join("")}amix=inputs=${sources.length}:duration=longest:dropout_transition=0:normalize=0,volume=${volume}${fadeFilter}[aout]`
+    );
+  }
+
+  return { inputs, filterParts };
+}
+
+/**
+ * Calculate cell positions for the collage using the layout engine.
+ * The layout is validated as computed, so problems that clamping hides
+ * (such as cells past the canvas) are still reported.
+ */
+function computePositions(
+  media: MediaItem[],
+  layout: CollageConfig["layout"],
+  width: number,
+  height: number
+): { positions: CellPosition[]; violations: LayoutViolation[] } {
+  const gap = layout.gap || 0;
+  if (layout.type === "custom" && layout.positions) {
+    return { positions: layout.positions, violations: validateLayout(layout.positions, media.length, width, height, gap) };
+  }
+
+  const positions = calculateLayout(getLayoutItems(media), getLayoutOptions(layout, width, height));
+
+  // Ensure positions are within bounds
+  return {
+    positions: clampPositions(positions, width, height),
+    violations: validateLayout(positions, media.length, width, height, gap),
+  };
+}
+
+/**
+ * Probe the collage's media and score every layout algorithm for it, best first
+ */
+export async function compareLayouts(config: CollageConfig): Promise<RankedLayout[]> {
+  const media = await prepareMediaItems(config.media, config.duration);
+  return rankLayouts(getLayoutItems(media), getLayoutOptions(config.layout, config.width, config.height));
+}
+
+/**
+ * Convert media to layout items: aspect ratio, weight and pin
+ */
+function getLayoutItems(media: MediaItem[]): LayoutItem[] {
+  return media.map((item, index) => ({
+    ...mediaToLayoutItem(item.info, index),
+    area: item.weight,
+    pin: item.pin,
+  }));
+}
+
+function getLayoutOptions(layout: CollageConfig["layout"], width: number, height: number): LayoutOptions {
+  return {
+    type: layout.type as LayoutType,
+    canvasWidth: width,
+    canvasHeight: height,
+    gap: layout.gap || 0,
+    columns: layout.columns,
+    rows: layout.rows,
+    preserveOrder: layout.preserveOrder,
+    aspectTolerance: layout.aspectTolerance,
+  };
+}
+
+/**
+ * Run ffmpeg and collect stderr for error reporting.
+ * Progress is read from `-progress` output on stdout and reported through
+ * the callback. The process is tracked by the workspace so it is killed on
+ * interrupt.
+ */
+async function runFfmpeg(
+  args: string[],
+  workspace: Workspace,
+  progress?: { context: Pick<ProgressEvent, "stage" | "step" | "steps" | "duration">; onProgress?: ProgressCallback }
+): Promise<{ exitCode: number | null; errorOutput: string }> {
+  const proc = Bun.spawn(["ffmpeg", "-progress", "pipe:1", "-nostats", ...args], {
+    stdout: "pipe",
+    stderr: "pipe",
+  });
+  workspace.track(proc);
+
+  const stdoutDecoder = new TextDecoder();
+  const stderrDecoder = new TextDecoder();
+  let errorOutput = "";
+
+  const parseProgress = progress?.onProgress
+    ? createProgressParser(progress.context, progress.onProgress)
+    : null;
+
+  const readStdout = async () => {
+    const reader = proc.stdout.getReader();
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      parseProgress?.(stdoutDecoder.decode(value, { stream: true }));
+    }
+  };
+
+  const readStderr = async () => {
+    const reader = proc.stderr.getReader();
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      errorOutput += stderrDecoder.decode(value, { stream: true });
+    }
+  };
+
+  await Promise.all([readStdout(), readStderr()]);
+  await proc.exited;
+  workspace.untrack(proc);
+  return { exitCode: proc.exitCode, errorOutput };
+}
+
+// Collages with more media than this are pre-rendered in tiles
+const TILE_THRESHOLD = 12;
+
+// Lossless 4:4:4 intermediate: no quality loss and odd cell sizes are allowed
+const INTERMEDIATE_ENCODER_ARGS = ["-c:v", "libx264", "-preset", "ultrafast", "-qp", "0", "-pix_fmt", "yuv444p"];
+
+/**
+ * A single ffmpeg invocation in a collage render
+ */
+export interface FfmpegJob {
+  stage: ProgressEvent["stage"];
+  step: number;
+  steps: number;
+  label: string; // Human-readable description for logs
+  output: string;
+  duration: number; // Seconds of output written, for progress
+  filterParts: string[]; // Filter graph, one chain per entry
+  filterScript: string; // File the graph is written to for -filter_complex_script
+  args: string[]; // ffmpeg arguments (without the binary name)
+}
+
+/**
+ * Everything needed to render a collage, computed without encoding
+ */
+export interface CollagePlan {
+  config: CollageConfig; // With defaults applied and media info loaded
+  positions: CellPosition[]; // Final layout for all media
+  jobs: FfmpegJob[]; // Clip preparation and tile pre-renders, then the final render
+  slots?: MediaItem[][]; // Queue of media for each cell in slots mode
+  violations: LayoutViolation[]; // Problems in the layout as computed, before it was clamped to the canvas
+  scenes?: {
+    layout: CollageConfig["layout"];
+    media: MediaItem[];
+    positions: CellPosition[];
+    violations: LayoutViolation[];
+    slots?: MediaItem[][];
+  }[]; // Per-scene layouts
+}
+
+/**
+ * Describe what's wrong with every layout in a plan (one per scene).
+ * Empty when all layouts are valid.
+ */
+export function getLayoutWarnings(plan: CollagePlan): string[] {
+  const layouts = plan.scenes ?? [plan];
+  return layouts.flatMap(({ violations }, i) =>
+    violations.map(violation => (plan.scenes ? `Scene ${i + 1}: ${violation.message}` : violation.message))
+  );
+}
+
+/**
+ * Plan intermediate clips for loops that -stream_loop can't produce from
+ * the source file: trimmed restarts and ping-pong. Each clip is trimmed,
+ * retimed and fitted to its cell, then encoded losslessly so the collage
+ * loops it like any other input. Returns the jobs plus the media list with
+ * prepared clips in place of their sources.
+ */
+function planPreparedClips(
+  media: MediaItem[],
+  positions: CellPosition[],
+  config: Pick<FilterConfig, "fps" | "background" | "fit">,
+  workDir: string,
+  prefix: string = ""
+): { jobs: FfmpegJob[]; media: MediaItem[] } {
+  const targets = media.flatMap((item, index) => {
+    const pos = positions.find(p => p.mediaIndex === index);
+    return pos && needsPreparedClip(item) ? [{ item, index, pos }] : [];
+  });
+  const jobs: FfmpegJob[] = [];
+  const prepared = [...media];
+
+  targets.forEach(({ item, index, pos }, i) => {
+    const step = i + 1;
+    const mode = getLoopMode(item);
+    const hasAudio = !!item.info?.hasAudio;
+    const videoFilter = [
+      getSpeedFilter(item.speed),
+      getDisplayScaleFilter(item.info),
+      getFitFilter(item.fit || config.fit, pos.width, pos.height, item.focus, config.background),
+      "setpts=PTS-STARTPTS",
+    ]
+      .filter(Boolean)
+      .join(",");
+    const audioFilter = [getTempoFilter(item.speed), "asetpts=PTS-STARTPTS"].filter(Boolean).join(",");
+
+    const filterParts: string[] = [];
+    if (mode === "pingpong") {
+      // Frames are reversed after scaling, so only cell-sized frames are buffered
+      filterParts.push(`[0:v]${videoFilter},split[fwd][fwd_copy]`, `[fwd_copy]reverse[rev]`);
+      if (hasAudio) {
+        filterParts.push(
+          `[0:a]${audioFilter},asplit[afwd][afwd_copy]`,
+          `[afwd_copy]areverse[arev]`,
+          `[fwd][afwd][rev][arev]concat=n=2:v=1:a=1[out][aout]`
+        );
+      } else {
+        filterParts.push(`[fwd][rev]concat=n=2:v=1:a=0[out]`);
+      }
+    } else {
+      filterParts.push(`[0:v]${videoFilter}[out]`);
+      if (hasAudio) {
+        filterParts.push(`[0:a]${audioFilter}[aout]`);
+      }
+    }
+
+    const clipPath = path.join(workDir, `${prefix}clip_${step}.mkv`);
+    const filterScript = path.join(workDir, `${prefix}graph_clip_${step}.txt`);
+    const clipDuration = getPlaybackDuration(item) * (mode === "pingpong" ? 2 : 1);
+    const args = [
+      "-y",
+      ...getInputArgs(item),
+      "-filter_complex_script", filterScript,
+      "-map", "[out]",
+      ...(hasAudio ? ["-map", "[aout]", "-c:a", "pcm_s16le"] : []),
+      ...INTERMEDIATE_ENCODER_ARGS,
+      "-r", String(config.fps),
+      clipPath,
+    ];
+
+    jobs.push({
+      stage: "prepare",
+      step,
+      steps: targets.length,
+      label: `Prepare ${step}/${targets.length} (${mode} loop of ${path.basename(item.path)})`,
+      output: clipPath,
+      duration: clipDuration,
+      filterParts,
+      filterScript,
+      args,
+    });
+
+    prepared[index] = {
+      path: clipPath,
+      type: "video",
+      loop: true,
+      loopMode: "restart",
+      fit: "stretch",
+      volume: item.volume,
+      effects: item.effects,
+      info: { width: pos.width, height: pos.height, duration: clipDuration, hasAudio, fps: config.fps },
+    };
+  });
+
+  return { jobs, media: prepared };
+}
+
+const DEFAULT_SLOT_IMAGE_DURATION = 5;
+
+/**
+ * Seconds an item plays in a cell queue
+ */
+function getQueueItemDuration(item: MediaItem, itemDuration?: number): number {
+  if (!isTimedMedia(item)) {
+    return item.duration ?? itemDuration ?? DEFAULT_SLOT_IMAGE_DURATION;
+  }
+  const playback = getPlaybackDuration(item);
+  if (playback <= 0) {
+    // Unknown length: play it like a still
+    return itemDuration ?? DEFAULT_SLOT_IMAGE_DURATION;
+  }
+  return itemDuration ? Math.min(playback, itemDuration) : playback;
+}
+
+/**
+ * Plan one clip per cell queue (slots mode). Each item is fitted to the
+ * cell and played once, with cuts or crossfades between items, and the
+ * clip is encoded losslessly so the collage loops it like any other input.
+ * Returns the jobs plus one media item per queue.
+ */
+function planSlotClips(
+  queues: MediaItem[][],
+  positions: CellPosition[],
+  config: Pick<FilterConfig, "fps" | "background" | "fit"> & Pick<SlotsConfig, "itemDuration" | "crossfade">,
+  workDir: string,
+  prefix: string = ""
+): { jobs: FfmpegJob[]; media: MediaItem[] } {
+  const { fps, background, fit } = config;
+  const jobs: FfmpegJob[] = [];
+  const media: MediaItem[] = [];
+
+  queues.forEach((queue, index) => {
+    const pos = positions.find(p => p.mediaIndex === index)!;
+    const step = index + 1;
+    const durations = queue.map(item => getQueueItemDuration(item, config.itemDuration));
+    const crossfade = getQueueCrossfade(durations, config.crossfade);
+    const { offsets, total } = getQueueTimings(durations, crossfade);
+    const filterParts: string[] = [];
+
+    queue.forEach((item, k) => {
+      const duration = durations[k]!;
+      const itemFit = item.fit || fit;
+      const scaleFilter = [getDisplayScaleFilter(item.info), getFitFilter(itemFit, pos.width, pos.height, item.focus, background)]
+        .filter(Boolean)
+        .join(",");
+      const playback = !isTimedMedia(item) && item.motion
+        ? getMotionFilter(item, item.motion, pos.width, pos.height, duration, fps, itemFit, background)
+        : !isTimedMedia(item)
+          ? `loop=loop=-1:size=1:start=0,setpts=N/FRAME_RATE/TB,${scaleFilter}`
+          : [getSpeedFilter(item.speed), scaleFilter].filter(Boolean).join(",");
+      // Same rate, format and timebase on every item, as concat and xfade require
+      const chain = `[${k}:v]${playback},trim=duration=${duration},setpts=PTS-STARTPTS,fps=${fps},format=yuv420p,settb=AVTB`;
+      const effects = item.effects ?? [];
+      if (effects.length > 0) {
+        filterParts.push(`${chain}[q${k}_fx]`, ...buildShaderChain(effects, pos.width, pos.height, `[q${k}_fx]`, `[q${k}]`, `q${k}_`));
+      } else {
+        filterParts.push(`${chain}[q${k}]`);
+      }
+    });
+
+    if (queue.length === 1) {
+      filterParts.push(`[q0]null[out]`);
+    } else if (crossfade > 0) {
+      let lastLabel = "[q0]";
+      for (let k = 1; k < queue.length; k++) {
+        const label = k === queue.length - 1 ? "[out]" : `[qx${k}]`;
+        filterParts.push(`${lastLabel}[q${k}]xfade=transition=fade:duration=${crossfade}:offset=${offsets[k]}${label}`);
+        lastLabel = label;
+      }
+    } else {
+      filterParts.push(`${queue.map((_, k) => `[q${k}]`).join("")}concat=n=${queue.length}:v=1:a=0[out]`);
+    }
+
+    const clipPath = path.join(workDir, `${prefix}slot_${step}.mkv`);
+    const filterScript = path.join(workDir, `${prefix}graph_slot_${step}.txt`);
+    const args = [
+      "-y",
+      // Each item plays once; the finished clip is what loops
+      ...queue.flatMap(item => getInputArgs({ ...item, loop: false, loopMode: undefined })),
+      "-filter_complex_script", filterScript,
+      "-map", "[out]",
+      ...INTERMEDIATE_ENCODER_ARGS,
+      "-t", String(total),
+      "-r", String(fps),
+      clipPath,
+    ];
+
+    jobs.push({
+      stage: "prepare",
+      step,
+      steps: queues.length,
+      label: `Slot ${step}/${queues.length} (${queue.length} items, ${Math.round(total * 10) / 10}s)`,
+      output: clipPath,
+      duration: total,
+      filterParts,
+      filterScript,
+      args,
+    });
+
+    media.push({
+      path: clipPath,
+      type: "video",
+      loop: true,
+      loopMode: "restart",
+      fit: "stretch",
+      info: { width: pos.width, height: pos.height, duration: total, hasAudio: false, fps },
+    });
+  });
+
+  return { jobs, media };
+}
+
+/**
+ * Plan groups of neighbouring cells as region-sized tile renders.
+ * Tiles are encoded losslessly at their final size, so the final pass only
+ * positions them and nothing is scaled twice. Returns the tile jobs plus the
+ * media and positions for the final composite, where single-cell groups keep
+ * their original media.
+ */
+function planTiles(
+  media: MediaItem[],
+  positions: CellPosition[],
+  config: Omit<FilterConfig, "width" | "height" | "shaders">,
+  workDir: string,
+  prefix: string = ""
+): { jobs: FfmpegJob[]; media: MediaItem[]; positions: CellPosition[] } {
+  const regions = groupIntoTiles(positions, getTileCellLimit(positions.length));
+  const jobs: FfmpegJob[] = [];
+  const compositeMedia: MediaItem[] = [];
+  const compositePositions: CellPosition[] = [];
+  const tileCount = regions.filter(r => r.positions.length > 1).length;
+  let tileNumber = 0;
+
+  for (const region of regions) {
+    if (region.positions.length === 1) {
+      const pos = region.positions[0]!;
+      compositePositions.push({ ...pos, mediaIndex: compositeMedia.length });
+      compositeMedia.push(media[pos.mediaIndex]!);
+      continue;
+    }
+
+    tileNumber++;
+    const tileMedia = region.positions.map(p => media[p.mediaIndex]!);
+    const tilePositions = region.positions.map((p, i) => ({
+      ...p,
+      x: p.x - region.x,
+      y: p.y - region.y,
+      mediaIndex: i,
+    }));
+
+    const { filterParts } = buildCpuFilterComplex(tileMedia, tilePositions, {
+      ...config,
+      width: region.width,
+      height: region.height,
+      shaders: [],
+    });
+
+    const tilePath = path.join(workDir, `${prefix}tile_${tileNumber}.mkv`);
+    const filterScript = path.join(workDir, `${prefix}graph_tile_${tileNumber}.txt`);
+    const args = [
+      "-y",
+      ...tileMedia.flatMap(getInputArgs),
+      "-filter_complex_script", filterScript,
+      "-map", "[out]",
+      ...INTERMEDIATE_ENCODER_ARGS,
+      "-t", String(config.duration),
+      "-r", String(config.fps),
+      tilePath,
+    ];
+
+    jobs.push({
+      stage: "tile",
+      step: tileNumber,
+      steps: tileCount,
+      label: `Tile ${tileNumber}/${tileCount} (${region.positions.length} cells, ${region.width}x${region.height})`,
+      output: tilePath,
+      duration: config.duration,
+      filterParts,
+      filterScript,
+      args,
+    });
+
+    compositePositions.push({
+      x: region.x,
+      y: region.y,
+      width: region.width,
+      height: region.height,
+      mediaIndex: compositeMedia.length,
+    });
+    compositeMedia.push({
+      path: tilePath,
+      type: "video",
+      loop: false,
+      fit: "stretch",
+    });
+  }
+
+  return { jobs, media: compositeMedia, positions: compositePositions };
+}
+
+/**
+ * Probe media, calculate the layout and build every ffmpeg job for a
+ * collage without running anything. Intermediate files are placed in workDir.
+ */
+export async function planCollage(config: CollageConfig, workDir: string): Promise<CollagePlan> {
+  if (config.scenes && config.scenes.length > 0) {
+    return planScenes(config, workDir);
+  }
+  return planComposite(config, workDir, { prefix: "" });
+}
+
+/**
+ * Where a composite is rendered to
+ */
+interface CompositeTarget {
+  prefix: string; // Prepended to intermediate file names so scenes don't collide
+  scene?: { step: number; steps: number }; // Render a lossless scene clip instead of the output
+}
+
+async function planComposite(config: CollageConfig, workDir: string, target: CompositeTarget): Promise<CollagePlan> {
   const {
     layout,
     width,
@@ -331,220 +1387,750 @@ export async function generateCollage(config: CollageConfig): Promise<void> {
     gpu = false,
     gpuExperimental = false,
     preset = "balanced" as EncodingPreset,
+    audio,
+    seamless = false,
   } = config;
-  let { media } = config;
+
+  // Output format comes from the codec setting or the output extension
+  const codec = target.scene ? "h264" : resolveCodec(output, config.codec);
+  const outputPath = target.scene ? output : resolveOutputPath(output, codec);
 
   // GPU mode logic:
   // - gpu: Hybrid mode - CPU filters + NVENC encoding (reliable)
   // - gpuExperimental: Full CUDA pipeline (unreliable, may fail)
   const useNvencEncoding = gpu || gpuExperimental;
   const useCudaFilters = gpuExperimental;
+  const fit = layout.fit || "stretch";
 
-  // Prepare media with parallel info fetching
-  console.log("Analyzing media files...");
-  media = await prepareMediaItems(media, duration);
-
-  // If more than 12 media items, process in batches
-  if (media.length > 12) {
-    const batchSize = 6;
-    const batches: MediaItem[][] = [];
-    for (let i = 0; i < media.length; i += batchSize) {
-      batches.push(media.slice(i, i + batchSize));
-    }
+  // Seamless loops need an extra fade of footage past the end of every cell
+  const seamlessFade = seamless ? getSeamlessFade(duration) : 0;
 
-    console.log(`Processing ${batches.length} batches of media...`);
-
-    const tempFiles: MediaItem[] = [];
-    for (let i = 0; i < batches.length; i++) {
-      console.log(`\nBatch ${i + 1}/${batches.length}...`);
-      const tempOutput = `temp_collage_${i}_${Date.now()}.mp4`;
-      const batchMedia = batches[i]!;
-      const batchConfig: CollageConfig = {
-        output: tempOutput,
-        width,
-        height,
-        duration,
-        fps,
-        background,
-        gpu,
-        gpuExperimental,
-        layout,
-        media: batchMedia,
-      };
-      await generateCollage(batchConfig);
-      const tempInfo = await getMediaInfo(tempOutput);
-      tempFiles.push({ path: tempOutput, type: "video", loop: true, info: tempInfo });
-    }
-    media = tempFiles;
+  // Prepare media with parallel info fetching
+  const sourceMedia = resolveMotions(await prepareMediaItems(config.media, duration + seamlessFade), config.motion);
+  const jobs: FfmpegJob[] = [];
+
+  // Slots mode: one cell per queue, laid out by the first item of each queue
+  const queues = config.slots ? assignSlots(sourceMedia, config.slots) : undefined;
+  const cellMedia = queues ? queues.map(queue => queue[0]!) : sourceMedia;
+
+  // Calculate the final layout once for all media
+  // Slots mode lays out one cell per queue
+  const { positions: layoutPositions, violations } = computePositions(cellMedia, layout, width, height);
+
+  let cells = sourceMedia;
+  if (queues) {
+    const slotClips = planSlotClips(queues, layoutPositions, { fps, background, fit, ...config.slots }, workDir, target.prefix);
+    jobs.push(...slotClips.jobs);
+    cells = slotClips.media;
   }
 
-  // Calculate positions using new layout engine
-  let positions: CellPosition[];
-
-  if (layout.type === "custom" && layout.positions) {
-    positions = layout.positions;
-  } else {
-    // Convert media to layout items
-    const layoutItems = media.map((item, index) => mediaToLayoutItem(item.info, index));
-
-    positions = calculateLayout(layoutItems, {
-      type: layout.type as LayoutType,
-      canvasWidth: width,
-      canvasHeight: height,
-      gap: layout.gap || 0,
-      columns: layout.columns,
-      rows: layout.rows,
-    });
-
-    // Ensure positions are within bounds
-    positions = clampPositions(positions, width, height);
+  // Trimmed and ping-pong loops are rendered to clips that can loop on input
+  const prepared = planPreparedClips(cells, layoutPositions, { fps, background, fit }, workDir, target.prefix);
+  jobs.push(...prepared.jobs);
+
+  let positions = layoutPositions;
+  let media = prepared.media;
+
+  // Large collages: composite pre-rendered tiles instead of every clip.
+  // Tiles include the extra fade footage; the loop is closed in the final pass.
+  if (media.length > TILE_THRESHOLD) {
+    const tiled = planTiles(
+      media,
+      positions,
+      { duration: duration + seamlessFade, fps, background, fit },
+      workDir,
+      target.prefix
+    );
+    jobs.push(...tiled.jobs);
+    media = tiled.media;
+    positions = tiled.positions;
   }
 
   // Build inputs array
   const inputs: string[] = [];
+  let inputCount = 0;
   for (let i = 0; i < media.length; i++) {
     const item = media[i];
     const pos = positions.find(p => p.mediaIndex === i);
     if (!pos || !item) continue;
-    inputs.push("-i", item.path);
-  }
-
-  // Set loop and info for temp collages
-  for (const item of media) {
-    if (item.path.startsWith("temp_collage_")) {
-      item.loop = true;
-      if (!item.info) {
-        item.info = await getMediaInfo(item.path);
-      }
-    }
+    inputs.push(...getInputArgs(item));
+    inputCount++;
   }
 
   // Build filter complex based on GPU mode
-  const filterConfig = { width, height, duration, fps, background, shader };
+  const shaders = normalizeShaderChain(shader);
+  const filterConfig: FilterConfig = { width, height, duration, fps, background, shaders, fit, seamlessFade };
   const { filterParts } = useCudaFilters
     ? buildCudaFilterComplex(media, positions, filterConfig)
     : buildCpuFilterComplex(media, positions, filterConfig);
 
-  const filterComplex = filterParts.join(";");
+  const label = media !== prepared.media
+    ? `Composite of ${media.length} inputs (pre-rendered tiles)`
+    : `Composite of ${media.length} inputs`;
+  const filterScript = path.join(workDir, `${target.prefix}graph_render.txt`);
+  let audioGraph: ReturnType<typeof buildAudioFilterComplex> = null;
+
+  if (target.scene) {
+    // Scene clips are joined and encoded by the final pass
+    const { step, steps } = target.scene;
+    jobs.push({
+      stage: "scene",
+      step,
+      steps,
+      label: `Scene ${step}/${steps} (${label.charAt(0).toLowerCase()}${label.slice(1)})`,
+      output: outputPath,
+      duration,
+      filterParts,
+      filterScript,
+      args: [
+        "-y",
+        ...(useCudaFilters ? ["-hwaccel", "cuda"] : []),
+        ...inputs,
+        "-filter_complex_script", filterScript,
+        "-map", "[out]",
+        ...INTERMEDIATE_ENCODER_ARGS,
+        "-t", String(duration),
+        "-r", String(fps),
+        outputPath,
+      ],
+    });
+  } else {
+    // Audio sources are appended as extra inputs after the video inputs
+    audioGraph = codecSupportsAudio(codec)
+      ? buildAudioFilterComplex(prepared.media, audio, duration, inputCount, seamlessFade)
+      : null;
+
+    jobs.push(
+      planOutputRender(inputs, filterParts, audioGraph, {
+        codec,
+        preset,
+        outputPath,
+        duration,
+        fps,
+        nvenc: useNvencEncoding,
+        cuda: useCudaFilters,
+        filterScript,
+        label,
+      })
+    );
+  }
 
-  // Get encoding settings based on GPU mode
-  const cpuSettings = ENCODING_PRESETS[preset] || ENCODING_PRESETS.balanced;
-  const gpuSettings = NVENC_PRESETS[preset] || NVENC_PRESETS.balanced;
+  return {
+    config: {
+      ...config,
+      background,
+      gpu,
+      gpuExperimental,
+      preset,
+      codec,
+      shader: shaders.length > 0 ? shaders : undefined,
+      seamless,
+      layout: { ...layout, fit },
+      media: sourceMedia,
+      audio: audioGraph ? audio : undefined,
+    },
+    positions: layoutPositions,
+    violations,
+    slots: queues,
+    jobs,
+  };
+}
+
+/**
+ * Build the job that encodes the output from a graph ending in [out]:
+ * format-specific processing, audio, encoder and container settings
+ */
+function planOutputRender(
+  inputs: string[],
+  filterParts: string[],
+  audioGraph: { inputs: string[]; filterParts: string[] } | null,
+  options: {
+    codec: OutputCodec;
+    preset: EncodingPreset;
+    outputPath: string;
+    duration: number;
+    fps: number;
+    nvenc: boolean;
+    cuda: boolean;
+    filterScript: string;
+    label: string;
+  }
+): FfmpegJob {
+  const { codec, preset, outputPath, duration, fps, filterScript } = options;
+
+  // Format-specific processing of the composite (e.g. GIF palette)
+  let videoLabel = "[out]";
+  const outputFilter = getOutputFilter(codec, preset);
+  if (outputFilter) {
+    filterParts.push(`[out]${outputFilter}[final]`);
+    videoLabel = "[final]";
+  }
+
+  if (audioGraph) {
+    filterParts.push(...audioGraph.filterParts);
+  }
 
   // Build FFmpeg command with optimized settings
   const args: string[] = ["-y"];
 
   // Hardware acceleration only for experimental CUDA mode
   // Hybrid mode uses CPU decode (fast enough, avoids format issues)
-  if (useCudaFilters) {
+  if (options.cuda) {
     args.push("-hwaccel", "cuda");
   }
 
-  args.push(...inputs);
-  args.push("-filter_complex", filterComplex);
+  // The graph is passed as a script file: it can grow far beyond argv limits
+  args.push(...inputs, ...(audioGraph?.inputs ?? []));
+  args.push("-filter_complex_script", filterScript);
 
   // Map output - always [out] now (CUDA filters download to CPU before output)
-  args.push("-map", "[out]");
-
-  // Encoder settings
-  if (useNvencEncoding) {
-    args.push(
-      "-c:v", "h264_nvenc",
-      "-preset", gpuSettings.preset,
-      "-cq", String(gpuSettings.cq),
-      "-b:v", "0", // Use CQ mode (constant quality)
-      "-rc", "vbr", // Variable bitrate for better quality
-    );
-  } else {
-    args.push(
-      "-c:v", "libx264",
-      "-preset", cpuSettings.preset,
-      "-crf", String(cpuSettings.crf),
-      "-threads", "0", // Auto-detect threads
-    );
+  args.push("-map", videoLabel);
+  if (audioGraph) {
+    args.push("-map", "[aout]", ...getAudioEncoderArgs(codec));
   }
 
+  // Encoder settings (NVENC applies to H.264/HEVC; other codecs encode on the CPU)
+  args.push(...getEncoderArgs(codec, preset, options.nvenc));
+
   args.push(
-    "-pix_fmt", "yuv420p",
-    "-movflags", "+faststart",
+    ...getContainerArgs(outputPath),
     "-t", String(duration),
     "-r", String(fps),
-    output,
+    outputPath,
   );
 
-  // Log configuration
-  console.log("\nGenerating collage...");
-  console.log(`Output: ${output}`);
-  console.log(`Resolution: ${width}x${height}`);
-  console.log(`Duration: ${duration}s @ ${fps}fps`);
-  console.log(`Layout: ${layout.type}`);
-  console.log(`Media items: ${media.length}`);
-  const gpuModeLabel = useCudaFilters
-    ? "Experimental CUDA pipeline"
-    : useNvencEncoding
-      ? "Hybrid (CPU filters + NVENC)"
-      : "CPU";
-  console.log(`GPU: ${gpuModeLabel}`);
-  console.log(`Preset: ${preset}`);
-  if (shader) {
-    console.log(`Shader: ${shader}`);
-  }
-  console.log("");
+  return {
+    stage: "render",
+    step: 1,
+    steps: 1,
+    label: options.label,
+    output: outputPath,
+    duration,
+    filterParts,
+    filterScript,
+    args,
+  };
+}
+
+export const DEFAULT_TRANSITION: TransitionConfig = { type: "crossfade", duration: 1 };
 
-  try {
-    const proc = Bun.spawn(["ffmpeg", ...args], {
-      stdout: "pipe",
-      stderr: "pipe",
+// xfade transition for each scene transition type (morphs happen inside a scene clip)
+const XFADE_TRANSITIONS: Record<Exclude<TransitionType, "cut" | "morph">, string> = {
+  crossfade: "fade",
+  wipe: "wipeleft",
+  slide: "slideleft",
+};
+
+/**
+ * Seconds two scenes overlap during a transition (0 for cuts)
+ */
+export function getTransitionDuration(transition: TransitionConfig): number {
+  return transition.type === "cut" ? 0 : (transition.duration ?? DEFAULT_TRANSITION.duration!);
+}
+
+/**
+ * Resolve the transition into a scene. Settings the scene leaves out
+ * come from the collage transition, then the default.
+ */
+export function getSceneTransition(scene: Pick<SceneConfig, "transition">, fallback?: TransitionConfig): TransitionConfig {
+  return { ...DEFAULT_TRANSITION, ...fallback, ...scene.transition };
+}
+
+/**
+ * Resolve the transition into each scene; the first scene has none
+ */
+function getSceneTransitions(config: Pick<CollageConfig, "scenes" | "transition">): (TransitionConfig | undefined)[] {
+  return (config.scenes ?? []).map((scene, i) => (i === 0 ? undefined : getSceneTransition(scene, config.transition)));
+}
+
+/**
+ * Join scene inputs 0..n-1 into one stream ending in the output label.
+ * Scene clips run past their duration by the length of the next transition,
+ * so every scene starts at the sum of the durations before it.
+ */
+export function buildSceneTransitions(
+  durations: number[],
+  transitions: (TransitionConfig | undefined)[],
+  output: string
+): string[] {
+  if (durations.length === 1) {
+    return [`[0:v]null${output}`];
+  }
+
+  const filterParts: string[] = [];
+  let lastLabel = "[0:v]";
+  let offset = 0;
+
+  for (let i = 1; i < durations.length; i++) {
+    offset += durations[i - 1]!;
+    const transition = transitions[i] ?? DEFAULT_TRANSITION;
+    if (transition.type === "morph") {
+      throw new Error("Morph transitions can't join scene clips (scenes they join are rendered as one clip)");
+    }
+    const label = i === durations.length - 1 ? output : `[scene${i}]`;
+    filterParts.push(
+      transition.type === "cut"
+        ? `${lastLabel}[${i}:v]concat=n=2:v=1:a=0${label}`
+        : `${lastLabel}[${i}:v]xfade=transition=${XFADE_TRANSITIONS[transition.type]}:duration=${getTransitionDuration(transition)}:offset=${offset}${label}`
+    );
+    lastLabel = label;
+  }
+
+  return filterParts;
+}
+
+type ScenePlan = NonNullable<CollagePlan["scenes"]>[number];
+
+/**
+ * Group scenes that morph into each other: each group is rendered as one clip
+ */
+function groupMorphScenes(transitions: (TransitionConfig | undefined)[]): number[][] {
+  const groups: number[][] = [];
+  transitions.forEach((transition, i) => {
+    if (transition?.type === "morph") {
+      groups[groups.length - 1]!.push(i);
+    } else {
+      groups.push([i]);
+    }
+  });
+  return groups;
+}
+
+/**
+ * Size a cell's source is scaled to before it moves: its own aspect ratio,
+ * large enough to cover every rectangle the cell takes
+ */
+function getMorphSourceSize(item: MediaItem, track: CellTrack): { width: number; height: number } {
+  const width = Math.max(...track.keyframes.map(keyframe => keyframe.rect.width));
+  const height = Math.max(...track.keyframes.map(keyframe => keyframe.rect.height));
+  const sourceWidth = item.info?.displayWidth ?? item.info?.width;
+  const sourceHeight = item.info?.displayHeight ?? item.info?.height;
+  if (!sourceWidth || !sourceHeight) {
+    return { width, height };
+  }
+
+  const scale = Math.max(width / sourceWidth, height / sourceHeight);
+  const even = (value: number) => Math.max(2, Math.ceil(value / 2) * 2);
+  return { width: even(sourceWidth * scale), height: even(sourceHeight * scale) };
+}
+
+/**
+ * Build the graph for scenes joined by morph transitions. Every cell is
+ * scaled and placed with expressions of `t` that follow its keyframes, so
+ * cells in both scenes move and resize into their new place while cells
+ * that appear or leave fade in and out.
+ */
+function buildMorphFilterComplex(
+  media: MediaItem[],
+  tracks: CellTrack[],
+  config: Pick<FilterConfig, "width" | "height" | "duration" | "fps" | "background" | "fit">
+): string[] {
+  const { width, height, duration, fps, background, fit } = config;
+  const canvas = `color=c=${escapeFilterValue(background)}:s=2x2:d=${duration}:r=${fps}`;
+  const filterParts: string[] = [`color=c=${escapeFilterValue(background)}:s=${width}x${height}:d=${duration}:r=${fps}[bg]`];
+  // Cells without a rectangle in any scene (e.g. beyond custom positions) are left out
+  const shown = tracks.flatMap((track, i) => (track.keyframes.length > 0 ? [i] : []));
+  let lastLabel = "[bg]";
+
+  shown.forEach((i, n) => {
+    const track = tracks[i]!;
+    const item = media[i]!;
+    const source = getMorphSourceSize(item, track);
+    const sourceScale = getFitFilter("stretch", source.width, source.height);
+    const trim = `trim=duration=${duration},setpts=PTS-STARTPTS`;
+    const effects = item.effects ?? [];
+    const sourceLabel = effects.length > 0 ? `[m${i}_fx]` : `[m${i}_src]`;
+
+    if (!isTimedMedia(item) && item.motion) {
+      const motionFilter = getMotionFilter(item, item.motion, source.width, source.height, duration, fps, "stretch", background);
+      filterParts.push(`[${i}:v]${motionFilter},${trim}${sourceLabel}`);
+    } else if (!isTimedMedia(item)) {
+      const still = [`loop=loop=-1:size=1:start=0,setpts=N/FRAME_RATE/TB`, getDisplayScaleFilter(item.info), sourceScale];
+      filterParts.push(`[${i}:v]${still.filter(Boolean).join(",")},${trim}${sourceLabel}`);
+    } else {
+      const playback = [getSpeedFilter(item.speed), getDisplayScaleFilter(item.info), sourceScale, getHoldFilter(item)];
+      filterParts.push(`[${i}:v]${playback.filter(Boolean).join(",")},${trim}${sourceLabel}`);
+    }
+    if (effects.length > 0) {
+      filterParts.push(...buildShaderChain(effects, source.width, source.height, sourceLabel, `[m${i}_src]`, `fx${i}_`));
+    }
+
+    // Scale and overlay read the rectangle frame by frame
+    const [x, y, w, h] = (["x", "y", "width", "height"] as const).map(key =>
+      buildKeyframeExpression(track.keyframes, key)
+    );
+    const fades = track.visible.flatMap(range => [
+      ...(range.fadeIn > 0
+        ? [`fade=t=in:st=${range.start}:d=${range.fadeIn}:alpha=1:enable='between(t,${range.start},${range.start + range.fadeIn})'`]
+        : []),
+      ...(range.fadeOut > 0
+        ? [`fade=t=out:st=${range.end - range.fadeOut}:d=${range.fadeOut}:alpha=1:enable='between(t,${range.end - range.fadeOut},${range.end})'`]
+        : []),
+    ]);
+    const cellFit = item.fit || fit;
+
+    if (cellFit === "stretch") {
+      filterParts.push(
+        [`[m${i}_src]format=yuva444p`, `scale=w='${w}':h='${h}':eval=frame`, ...fades].join(",") + `[m${i}]`
+      );
+    } else {
+      // Cover and contain fit the source around a canvas of the cell size;
+      // overlay crops cover to the canvas and contain leaves background bars
+      const scale = cellFit === "cover" ? "max" : "min";
+      const { x: fx, y: fy } = cellFit === "cover" ? normalizeFocus(item.focus) : { x: 0.5, y: 0.5 };
+      filterParts.push(
+        `${canvas},format=yuva444p,scale=w='${w}':h='${h}':eval=frame[m${i}_canvas]`,
+        `[m${i}_src]format=yuva444p,scale=w='${scale}((${w})/iw,(${h})/ih)*iw':h='${scale}((${w})/iw,(${h})/ih)*ih':eval=frame[m${i}_fit]`,
+        [
+          `[m${i}_canvas][m${i}_fit]overlay=x='(main_w-overlay_w)*${fx}':y='(main_h-overlay_h)*${fy}':eval=frame:format=yuv444`,
+          ...(fades.length > 0 ? ["format=yuva444p", ...fades] : []),
+        ].join(",") + `[m${i}]`
+      );
+    }
+
+    const always = track.visible.some(range => range.start <= 0 && range.end >= duration);
+    const enable = track.visible.map(range => `between(t,${range.start},${range.end})`).join("+");
+    const enableOption = always ? "" : `:enable='${enable}'`;
+    const outputLabel = n === shown.length - 1 ? "[out]" : `[tmp${n}]`;
+    filterParts.push(
+      `${lastLabel}[m${i}]overlay=x='${x}':y='${y}':eval=frame:format=yuv444:shortest=0${getEofOption(item)}${enableOption}${outputLabel}`
+    );
+    lastLabel = outputLabel;
+  });
+
+  return filterParts;
+}
+
+/**
+ * Plan one clip for scenes joined by morph transitions. Cells that show the
+ * same file in consecutive scenes become one track that moves from its
+ * place in one layout to its place in the next.
+ */
+async function planMorphScenes(
+  config: CollageConfig,
+  scenes: SceneConfig[],
+  transitions: (TransitionConfig | undefined)[],
+  workDir: string,
+  target: Required<CompositeTarget>
+): Promise<{ jobs: FfmpegJob[]; scenes: ScenePlan[] }> {
+  const { width, height, duration, fps, output, background = "black" } = config;
+  const fit = config.layout.fit || "stretch";
+
+  const sceneMedia: MediaItem[][] = [];
+  for (const scene of scenes) {
+    sceneMedia.push(resolveMotions(await prepareMediaItems(scene.media, duration), config.motion));
+  }
+  const plans = scenes.map((scene, i) => {
+    const layout = { ...config.layout, ...scene.layout, fit: scene.layout?.fit || fit };
+    return { layout, media: sceneMedia[i]!, ...computePositions(sceneMedia[i]!, layout, width, height) };
+  });
+
+  // One track per distinct cell, with its rectangle in each scene it is part of
+  const { cells, indices } = matchCells(sceneMedia);
+  const rects = plans.map((plan, i) => {
+    const sceneRects: (CellPosition | undefined)[] = [];
+    plan.positions.forEach(pos => {
+      sceneRects[indices[i]![pos.mediaIndex]!] = pos;
     });
+    return sceneRects;
+  });
+  let start = 0;
+  const steps: MorphStep[] = scenes.map((scene, i) => {
+    const transition = transitions[i];
+    const step = { start, duration: transition ? getTransitionDuration(transition) : 0, easing: transition?.easing };
+    start += scene.duration;
+    return step;
+  });
+  const tracks = buildCellTracks(
+    rects.map(sceneRects => cells.map((_, cell) => sceneRects[cell])),
+    steps,
+    duration
+  );
 
-    const decoder = new TextDecoder();
-    const reader = proc.stderr.getReader();
-    let errorOutput = "";
+  // Trimmed and ping-pong loops are prepared at their own size; the morph scales them
+  // Cells without a rectangle in any scene are left out of the graph, so they need no clip
+  const sourceSizes = cells.flatMap((item, i) =>
+    tracks[i]!.keyframes.length > 0 ? [{ ...getMorphSourceSize(item, tracks[i]!), x: 0, y: 0, mediaIndex: i }] : []
+  );
+  const prepared = planPreparedClips(cells, sourceSizes, { fps, background, fit: "stretch" }, workDir, target.prefix);
+  // A cell keeps the fit of the first scene it appears in
+  const media = prepared.media.map((item, i) => {
+    const first = indices.findIndex(sceneCells => sceneCells.includes(i));
+    return { ...item, fit: cells[i]!.fit || plans[first]!.layout.fit };
+  });
 
-    while (true) {
-      const { done, value } = await reader.read();
-      if (done) break;
-      const text = decoder.decode(value);
-      errorOutput += text;
-      if (text.includes("frame=") || text.includes("time=")) {
-        process.stdout.write(`\r${text.trim().slice(0, 80)}`);
-      }
+  const filterParts = buildMorphFilterComplex(media, tracks, { width, height, duration, fps, background, fit });
+  const filterScript = path.join(workDir, `${target.prefix}graph_render.txt`);
+  const { step, steps: stepCount } = target.scene;
+
+  return {
+    jobs: [
+      ...prepared.jobs,
+      {
+        stage: "scene",
+        step,
+        steps: stepCount,
+        label: `Scene ${step}/${stepCount} (${scenes.length} scenes morphing, ${cells.length} cells)`,
+        output,
+        duration,
+        filterParts,
+        filterScript,
+        args: [
+          "-y",
+          ...media.flatMap(item => getInputArgs(item)),
+          "-filter_complex_script", filterScript,
+          "-map", "[out]",
+          ...INTERMEDIATE_ENCODER_ARGS,
+          "-t", String(duration),
+          "-r", String(fps),
+          output,
+        ],
+      },
+    ],
+    scenes: plans,
+  };
+}
+
+/**
+ * Plan a collage that moves through several scenes: each scene is rendered
+ * to a lossless clip with its own media and layout, then the clips are
+ * joined with transitions. Scenes joined by morph transitions share a clip.
+ * Shaders and the soundtrack run over the joined timeline in the final pass.
+ */
+async function planScenes(config: CollageConfig, workDir: string): Promise<CollagePlan> {
+  const scenes = config.scenes!;
+  const { fps, width, height, output, background = "black", shader, audio } = config;
+  const preset = config.preset ?? ("balanced" as EncodingPreset);
+  const codec = resolveCodec(output, config.codec);
+  const outputPath = resolveOutputPath(output, codec);
+  const transitions = getSceneTransitions(config);
+  const duration = scenes.reduce((sum, scene) => sum + scene.duration, 0);
+
+  const groups = groupMorphScenes(transitions);
+  const durations = groups.map(group => group.reduce((sum, i) => sum + scenes[i]!.duration, 0));
+  const groupTransitions = groups.map(group => transitions[group[0]!]);
+
+  const jobs: FfmpegJob[] = [];
+  const clips: string[] = [];
+  const scenePlans: ScenePlan[] = [];
+  for (let i = 0; i < groups.length; i++) {
+    const group = groups[i]!;
+    const next = groupTransitions[i + 1];
+    const step = i + 1;
+    const target = { prefix: `scene_${step}_`, scene: { step, steps: groups.length } };
+    const sceneConfig: CollageConfig = {
+      ...config,
+      scenes: undefined,
+      shader: undefined,
+      audio: undefined,
+      seamless: false,
+      // Scene clips use CPU filters; the CUDA fallback only covers the final pass
+      gpuExperimental: false,
+      duration: durations[i]! + (next ? getTransitionDuration(next) : 0),
+      output: path.join(workDir, `scene_${step}.mkv`),
+    };
+
+    if (group.length > 1) {
+      const morph = await planMorphScenes(
+        sceneConfig,
+        group.map(index => scenes[index]!),
+        group.map((index, j) => (j === 0 ? undefined : transitions[index])),
+        workDir,
+        target
+      );
+      jobs.push(...morph.jobs);
+      scenePlans.push(...morph.scenes);
+    } else {
+      const scene = scenes[group[0]!]!;
+      const plan = await planComposite(
+        { ...sceneConfig, media: scene.media, layout: { ...config.layout, ...scene.layout } },
+        workDir,
+        target
+      );
+      jobs.push(...plan.jobs);
+      scenePlans.push({
+        layout: plan.config.layout,
+        media: plan.config.media,
+        positions: plan.positions,
+        violations: plan.violations,
+        slots: plan.slots,
+      });
     }
+    clips.push(jobs[jobs.length - 1]!.output);
+  }
 
-    await proc.exited;
+  const inputs = clips.flatMap(clip => ["-i", clip]);
+  const shaders = normalizeShaderChain(shader);
+  const filterParts = buildSceneTransitions(durations, groupTransitions, shaders.length > 0 ? "[pre_shader]" : "[out]");
+  if (shaders.length > 0) {
+    filterParts.push(...buildShaderChain(shaders, width, height, "[pre_shader]", "[out]"));
+  }
 
-    if (proc.exitCode !== 0) {
-      // Check for common CUDA errors
-      if (useCudaFilters && (errorOutput.includes("cuda") || errorOutput.includes("CUDA") || errorOutput.includes("hwupload") || errorOutput.includes("No NVENC"))) {
-        // Extract the actual error for debugging
-        const errorLines = errorOutput.split("\n").filter(l =>
-          l.includes("Error") || l.includes("error") || l.includes("Cannot") || l.includes("Invalid")
-        );
-        console.error("\n\nCUDA error detected:");
-        if (errorLines.length > 0) {
-          console.error(errorLines.slice(-3).join("\n"));
-        }
-        console.error("Falling back to hybrid mode (CPU filters + NVENC)...\n");
-        // Retry with hybrid mode - CPU filters but still NVENC encoding
-        const hybridConfig = { ...config, gpu: true, gpuExperimental: false };
-        return generateCollage(hybridConfig);
+  // Cell audio belongs to a single scene; only a soundtrack spans the timeline
+  const audioGraph = codecSupportsAudio(codec) && audio?.mode === "track"
+    ? buildAudioFilterComplex([], audio, duration, clips.length)
+    : null;
+
+  jobs.push(
+    planOutputRender(inputs, filterParts, audioGraph, {
+      codec,
+      preset,
+      outputPath,
+      duration,
+      fps,
+      nvenc: config.gpu || config.gpuExperimental || false,
+      cuda: false,
+      filterScript: path.join(workDir, "graph_render.txt"),
+      label: `${scenes.length} scenes joined with transitions`,
+    })
+  );
+
+  return {
+    config: {
+      ...config,
+      duration,
+      background,
+      preset,
+      codec,
+      layout: scenePlans[0]!.layout,
+      media: scenePlans.flatMap(plan => plan.media),
+      shader: shaders.length > 0 ? shaders : undefined,
+      audio: audioGraph ? audio : undefined,
+      scenes: scenes.map((scene, i) => ({
+        ...scene,
+        media: scenePlans[i]!.media,
+        layout: scenePlans[i]!.layout,
+        transition: transitions[i],
+      })),
+    },
+    positions: scenePlans[0]!.positions,
+    violations: scenePlans[0]!.violations,
+    scenes: scenePlans,
+    jobs,
+  };
+}
+
+/**
+ * Write a job's filter graph to its script file, one chain per line
+ */
+export function formatFilterScript(job: Pick<FfmpegJob, "filterParts">): string {
+  return job.filterParts.join(";\n") + "\n";
+}
+
+async function writeFilterScript(job: FfmpegJob): Promise<void> {
+  await Bun.write(job.filterScript, formatFilterScript(job));
+}
+
+export interface GenerateOptions {
+  onProgress?: ProgressCallback; // Called with structured progress for each ffmpeg run
+  log?: (message: string) => void; // Human-readable status lines, console.log by default
+}
+
+/**
+ * Render the collage. Returns the path ffmpeg wrote the output to.
+ */
+export async function generateCollage(config: CollageConfig, options: GenerateOptions = {}): Promise<string> {
+  const log = options.log ?? console.log;
+  // Intermediate files go to a per-run temp dir, removed on exit or interrupt
+  const workspace = createWorkspace({ keep: config.keepTemp || false, log });
+
+  try {
+    log("Analyzing media files...");
+    let plan = await planCollage(config, workspace.dir);
+    for (const warning of getLayoutWarnings(plan)) {
+      console.warn(`Warning: ${warning}`);
+    }
+
+    for (const job of plan.jobs.filter(j => j.stage !== "render")) {
+      log(`\n${job.label}`);
+      await writeFilterScript(job);
+      const { exitCode, errorOutput } = await runFfmpeg(job.args, workspace, {
+        context: { stage: job.stage, step: job.step, steps: job.steps, duration: job.duration },
+        onProgress: options.onProgress,
+      });
+      if (exitCode !== 0) {
+        throw new Error(`FFmpeg exited with code ${exitCode} while rendering ${job.stage} ${job.step}\n${errorOutput.slice(-500)}`);
       }
-      throw new Error(`FFmpeg exited with code ${proc.exitCode}\n${errorOutput.slice(-500)}`);
     }
 
-    // Clean up temp files
-    for (const item of media) {
-      if (item.path.startsWith("temp_collage_")) {
-        try {
-          await Bun.$`rm ${item.path}`.quiet();
-        } catch {
-          // Ignore cleanup errors
+    while (true) {
+      const { layout, width, height, duration, fps, gpu, gpuExperimental, preset, codec, shader, audio } = plan.config;
+      const job = plan.jobs[plan.jobs.length - 1]!;
+      const useCudaFilters = gpuExperimental;
+
+      // Log configuration
+      log("\nGenerating collage...");
+      log(`Output: ${job.output}`);
+      log(`Resolution: ${width}x${height}`);
+      log(`Duration: ${duration}s @ ${fps}fps`);
+      log(`Layout: ${layout.type}`);
+      log(`Fit: ${layout.fit}`);
+      log(`Media items: ${plan.config.media.length}`);
+      log(`Inputs: ${job.label}`);
+      const nvencCodec = codec === "h264" || codec === "hevc";
+      const gpuModeLabel = useCudaFilters
+        ? "Experimental CUDA pipeline"
+        : gpu && nvencCodec
+          ? "Hybrid (CPU filters + NVENC)"
+          : gpu
+            ? `CPU (NVENC does not support ${codec})`
+            : "CPU";
+      log(`GPU: ${gpuModeLabel}`);
+      log(`Codec: ${codec}`);
+      log(`Preset: ${preset}`);
+      const shaders = normalizeShaderChain(shader);
+      if (shaders.length > 0) {
+        log(`Shader: ${formatShaderChain(shaders)}`);
+      }
+      log(`Audio: ${audio ? audio.mode : "none"}`);
+      if (plan.config.seamless) {
+        log(`Seamless loop: ${getSeamlessFade(duration)}s crossfade`);
+      }
+      if (plan.scenes) {
+        log(`Scenes: ${plan.scenes.length}`);
+      }
+      log("");
+
+      await writeFilterScript(job);
+
+      let result: { exitCode: number | null; errorOutput: string };
+      try {
+        result = await runFfmpeg(job.args, workspace, {
+          context: { stage: job.stage, step: job.step, steps: job.steps, duration },
+          onProgress: options.onProgress,
+        });
+      } catch (error) {
+        throw new Error(`FFmpeg error: ${error}`);
+      }
+
+      const { exitCode, errorOutput } = result;
+      if (exitCode !== 0) {
+        // Check for common CUDA errors
+        if (useCudaFilters && (errorOutput.includes("cuda") || errorOutput.includes("CUDA") || errorOutput.includes("hwupload") || errorOutput.includes("No NVENC"))) {
+          // Extract the actual error for debugging
+          const errorLines = errorOutput.split("\n").filter(l =>
+            l.includes("Error") || l.includes("error") || l.includes("Cannot") || l.includes("Invalid")
+          );
+          console.error("\n\nCUDA error detected:");
+          if (errorLines.length > 0) {
+            console.error(errorLines.slice(-3).join("\n"));
+          }
+          console.error("Falling back to hybrid mode (CPU filters + NVENC)...\n");
+          // Retry with hybrid mode - CPU filters but still NVENC encoding.
+          // Media info is cached on the items and tiles are already rendered.
+          plan = await planCollage({ ...config, gpu: true, gpuExperimental: false }, workspace.dir);
+          continue;
         }
+        throw new Error(`FFmpeg error: FFmpeg exited with code ${exitCode}\n${errorOutput.slice(-500)}`);
       }
+
+      break;
     }
 
-    console.log("\n\nCollage generated successfully!");
-  } catch (error) {
-    throw new Error(`FFmpeg error: ${error}`);
+    log("\n\nCollage generated successfully!");
+    // PNG sequences are written to a numbered pattern rather than the configured path
+    return plan.jobs[plan.jobs.length - 1]!.output;
+  } finally {
+    workspace.cleanup();
   }
 }
@@ -1,10 +1,37 @@
 #!/usr/bin/env bun
 
 import { parseArgs } from "util";
-import { loadConfig, scanDirectory, generateSampleConfig } from "./config";
-import { generateCollage, getMediaType, AVAILABLE_SHADERS, AVAILABLE_LAYOUTS, ENCODING_PRESETS, type EncodingPreset } from "./ffmpeg";
+import {
+  loadConfig,
+  scanDirectory,
+  generateSampleConfig,
+  normalizeAudioConfig,
+  normalizeMotionConfig,
+  normalizeSlotsConfig,
+  validateSlotsAudio,
+} from "./config";
+import {
+  generateCollage,
+  planCollage,
+  compareLayouts,
+  getLayoutWarnings,
+  getMediaType,
+  AVAILABLE_LAYOUTS,
+  AVAILABLE_FIT_MODES,
+  ENCODING_PRESETS,
+  type EncodingPreset,
+  type CollagePlan,
+} from "./ffmpeg";
+import { getLayoutCoverage, type RankedLayout } from "./layout";
 import { downloadMedia, downloadMultiple, listMedia, getMediaDir } from "./downloader";
-import type { CollageConfig, MediaItem } from "./types";
+import { formatProgressBar, type ProgressCallback } from "./progress";
+import { AVAILABLE_CODECS, resolveCodec, type OutputCodec } from "./codecs";
+import { normalizeShaderChain, formatShaderHelp } from "./shaders";
+import { loadShaderPlugins, DEFAULT_SHADER_DIR } from "./plugins";
+import { buildShellScript, formatCommand, SCRIPT_WORKDIR } from "./shell";
+import { chmodSync, existsSync } from "fs";
+import path from "path";
+import type { CollageConfig, MediaItem, FitMode } from "./types";
 
 const HELP = `
 video-collage - Create video collages from multiple videos and images
@@ -15,6 +42,7 @@ USAGE:
 COMMANDS:
   generate    Create a video collage (default if no command specified)
   download    Download videos from URLs (YouTube, Twitter, etc.)
+  layout      Score layouts for your media without encoding
   list        List media files in the media folder
   help        Show this help
 
@@ -31,7 +59,8 @@ QUICK START:
   video-collage download --generate https://youtube.com/watch?v=xxx
 `;
 
-const GENERATE_HELP = `
+// Built on demand so shader plugins show up in the SHADERS list
+const getGenerateHelp = () => `
 video-collage generate - Create a video collage
 
 USAGE:
@@ -51,11 +80,29 @@ OPTIONS:
   --columns <n>           Grid/masonry columns (grid/masonry layouts only)
   --rows <n>              Grid rows (grid layout only)
   --gap <pixels>          Gap between cells (default: 0)
+  --preserve-order        Keep media in order in dynamic rows (default: grouped by aspect ratio)
+  --fit <mode>            How media fills its cell (see FIT MODES below)
   --bg <color>            Background color (default: black)
-  --shader <name>         Apply shader effect to output
+  --shader <chain>        Apply shader effects, e.g. "vignette:angle=0.6,noise:strength=8"
+  --shader-dir <path>     Load shader plugins from a directory (see SHADER PLUGINS below)
+  --motion <type>         Pan/zoom still images (see MOTION below)
+  --motion-intensity <n>  Zoom amount for motion, 0-1 (default: 0.15)
+  --seed <n>              Seed for random motion and slot order (default: 0)
+  --slots <n>             Use n cells, each playing a queue of the media (see SLOTS below)
+  --slot-order <mode>     Deal media to cells: round-robin (default) or random (assigned: see SLOTS)
+  --item-duration <s>     Longest time each queued item plays (default: full clip, 5s for images)
+  --crossfade <s>         Crossfade between queued items (default: 0)
+  --audio <mode>          Audio: none (default), mix, or a media index
+  --music <file>          Background music, looped or trimmed with a fade-out
   --preset <name>         Encoding preset (see PRESETS below)
+  --codec <name>          Output codec (default: from output extension)
   --gpu                   Hybrid: CPU filters + NVENC encoding (recommended)
   --gpu-experimental      Full CUDA pipeline (experimental, unreliable)
+  --seamless              Crossfade each cell's end into its start for looping wallpapers
+  --keep-temp             Keep intermediate files in the temp dir (debugging)
+  --progress <mode>       Progress output: bar (default), json (other output on stderr), or none
+  --dry-run               Print layout, filter graph and ffmpeg command without encoding
+  --emit-script <path>    Write the ffmpeg command(s) as a shell script without encoding
   --init                  Generate sample config file
   --help                  Show this help
 
@@ -64,7 +111,27 @@ LAYOUTS:
   grid        Traditional uniform grid
   masonry     Pinterest-style vertical columns
   treemap     Space-filling treemap algorithm
-  pack        Bin-packing for mixed sizes
+  pack        MaxRects bin-packing that fills free space, for mixed sizes
+  auto        Try every layout above and use the best scoring one
+
+FIT MODES:
+  stretch     Scale to the cell size, ignoring aspect ratio (default)
+  cover       Fill the cell, cropping overflow around the focus point
+  contain     Fit inside the cell, letterboxing with the background
+
+MOTION (still images only):
+  zoom-in     Slowly zoom towards the focus point
+  zoom-out    Slowly zoom out from the focus point
+  pan-left    Pan across the image from right to left
+  pan-right   Pan across the image from left to right
+  random      Pick one of the above per image (repeatable with --seed)
+
+SLOTS:
+  With more media than fits on screen, --slots keeps n readable cells and
+  queues the rest: each cell plays its items one after another, then loops.
+  In a JSON config, "slots": {"count": 9, "order": "assigned"} uses each
+  media item's "slot" field instead. Files on the command line have no slot,
+  so --slot-order assigned is rejected.
 
 PRESETS:
   ultrafast   Fastest encoding, larger file
@@ -73,19 +140,34 @@ PRESETS:
   quality     Slower encoding, better quality
   best        Slowest, best quality
 
+OUTPUT FORMATS (picked from the -o extension, or set with --codec):
+  .mp4 .mov   h264 (default), or hevc
+  .mkv        hevc (x265)
+  .webm       vp9, or av1 (SVT-AV1)
+  .gif        Animated GIF with an optimized palette
+  .webp       Animated WebP
+  .png        PNG image sequence (frame number added to the name)
+
+AUDIO:
+  none        Silent output (default)
+  mix         Mix the audio of every cell
+  <index>     Use the audio of one media item (0 = first)
+  --music     Replace cell audio with a soundtrack file
+
 GPU MODES:
   --gpu              Hybrid mode (recommended) - CPU filters + NVENC encoding
                      Fast and reliable, works on all NVIDIA GPUs
   --gpu-experimental Full CUDA pipeline (unreliable)
                      May fail with "Function not implemented" on some GPUs
 
-SHADERS:
-  vignette    Darkens edges of the frame
-  bloom       Adds glow effect to bright areas
-  chromatic   RGB channel separation (retro look)
-  noise       Film grain texture
-  crt         CRT monitor effect with scanlines
-  dreamy      Soft ethereal glow with desaturation
+SHADERS (chain with commas, set parameters with name:param=value):
+${formatShaderHelp()}
+
+SHADER PLUGINS:
+  JSON or TS files in ${DEFAULT_SHADER_DIR} (or --shader-dir) declaring
+  a name, params and an ffmpeg filter template, e.g.
+    {"name": "sharpen", "params": {"amount": {"default": 1, "min": 0, "max": 3}},
+     "filter": "unsharp=5:5:{amount}"}
 
 EXAMPLES:
   # Generate from media folder (default)
@@ -100,15 +182,40 @@ EXAMPLES:
   # Masonry layout with gap
   video-collage generate --layout masonry --columns 4 --gap 8
 
+  # Crop media to fill uniform grid cells without squashing
+  video-collage generate --layout grid --fit cover
+
   # Fast encoding for preview
   video-collage generate --preset ultrafast -o preview.mp4
 
   # GPU acceleration (recommended for NVIDIA)
   video-collage generate --gpu
 
+  # Keep the sound of the first clip, or add a soundtrack
+  video-collage generate --audio 0
+  video-collage generate --music soundtrack.mp3
+
+  # Animated GIF or VP9 WebM output
+  video-collage generate -o collage.gif --preset fast -w 640 -h 360 -t 10
+  video-collage generate -o collage.webm --codec av1
+
+  # Inspect the layout and ffmpeg command without encoding
+  video-collage generate --layout treemap --dry-run
+  video-collage generate --emit-script render.sh
+
   # Apply shader effect
   video-collage generate --shader vignette
   video-collage generate --shader crt -o retro-wallpaper.mp4
+  video-collage generate --shader "vignette:angle=0.6,noise:strength=8,chromatic:shift=6"
+
+  # Photo collage with Ken Burns motion
+  video-collage generate --motion random --seed 7 photos/*.jpg
+
+  # 40 clips rotating through a 3x3 grid
+  video-collage generate --slots 9 --layout grid --crossfade 0.5 clips/*.mp4
+
+  # Wallpaper that loops without a visible jump
+  video-collage generate --seamless -o wallpaper.mp4
 `;
 
 const DOWNLOAD_HELP = `
@@ -143,6 +250,167 @@ EXAMPLES:
   video-collage download -o ~/Videos --concurrency 5 https://youtube.com/...
 `;
 
+const LAYOUT_HELP = `
+video-collage layout - Score layouts for your media
+
+USAGE:
+  video-collage layout [options] [file1] [file2] ...
+
+OPTIONS:
+  -c, --config <path>     Load media and layout settings from JSON file
+  -d, --dir <path>        Scan directory for media (default: ./media folder)
+  -w, --width <pixels>    Canvas width (default: 1920)
+  -h, --height <pixels>   Canvas height (default: 1080)
+  -l, --layout <type>     Layout to score (default: dynamic)
+  --columns <n>           Grid/masonry columns
+  --rows <n>              Grid rows
+  --gap <pixels>          Gap between cells (default: 0)
+  --preserve-order        Keep media in list order (dynamic layout)
+  --shader-dir <path>     Load shader plugins used by the config from a directory
+  --compare               Score every layout, best first
+  --help                  Show this help
+
+SCORES:
+  coverage    Share of the canvas covered by cells
+  distortion  How far cells stretch their media's aspect ratio (average / worst)
+  crop        Share of the media that --fit cover would crop away
+  size var    Spread of cell sizes (0 = all the same size)
+  overlaps    Pairs of overlapping cells
+  score       Uncropped coverage minus penalties; the auto layout picks the highest
+
+EXAMPLES:
+  # Which layout suits the media folder best?
+  video-collage layout --compare
+
+  # Compare layouts for a config's media on a portrait canvas
+  video-collage layout --compare -c collage.json -w 1080 -h 1920
+`;
+
+const PROGRESS_MODES = ["bar", "json", "none"] as const;
+type ProgressMode = (typeof PROGRESS_MODES)[number];
+
+/**
+ * Create the progress callback for the chosen output mode.
+ * json prints one JSON object per line so other tools can follow along.
+ */
+function createProgressReporter(mode: ProgressMode): ProgressCallback | undefined {
+  switch (mode) {
+    case "json":
+      return (event) => console.log(JSON.stringify(event));
+
+    case "bar":
+      return (event) => {
+        process.stdout.write(`\r${formatProgressBar(event)}`);
+        if (event.done) process.stdout.write("\n");
+      };
+
+    case "none":
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * Print a collage plan: resolved config, cell positions, filter graphs and commands
+ */
+function printPlan(plan: CollagePlan) {
+  console.log("--- Resolved Config ---");
+  console.log(JSON.stringify(plan.config, null, 2));
+
+  // Scene collages have one layout per scene
+  const layouts = plan.scenes ?? [{ media: plan.config.media, positions: plan.positions, slots: plan.slots }];
+  layouts.forEach(({ media, positions, slots }, i) => {
+    const scene = plan.scenes ? `Scene ${i + 1} ` : "";
+    const coverage = Math.round(getLayoutCoverage(positions, plan.config.width, plan.config.height) * 100);
+    console.log(`\n--- ${scene}Layout (${positions.length} cells, ${coverage}% coverage) ---`);
+    for (const pos of [...positions].sort((a, b) => a.mediaIndex - b.mediaIndex)) {
+      // In slots mode a cell plays a queue of items
+      const items = slots ? (slots[pos.mediaIndex] ?? []) : [media[pos.mediaIndex]].filter(Boolean);
+      const name = items.length > 0 ? items.map(item => item!.path.split("/").pop()).join(", ") : "?";
+      console.log(`  #${pos.mediaIndex}  x=${pos.x} y=${pos.y} ${pos.width}x${pos.height}  ${name}`);
+    }
+  });
+
+  const warnings = getLayoutWarnings(plan);
+  if (warnings.length > 0) {
+    console.log("\n--- Layout Warnings ---");
+    for (const warning of warnings) {
+      console.log(`  ${warning}`);
+    }
+  }
+
+  console.log(`\nFilter graphs and tiles live in ${SCRIPT_WORKDIR}. Use --emit-script for a self-contained script.`);
+
+  for (const job of plan.jobs) {
+    console.log(`\n--- Filter Graph: ${job.label} ---`);
+    console.log(job.filterParts.join(";\n"));
+    console.log(`\n--- Command: ${job.label} ---`);
+    console.log(formatCommand(job.args));
+  }
+}
+
+/**
+ * Load shader plugins from the default directory and an optional extra one.
+ * Exits on a broken plugin.
+ */
+async function registerShaderPlugins(shaderDir?: string) {
+  const shaderDirs = existsSync(DEFAULT_SHADER_DIR) ? [DEFAULT_SHADER_DIR] : [];
+  // The default directory is already loaded; loading it again would register every plugin twice
+  if (shaderDir && path.resolve(shaderDir) !== path.resolve(DEFAULT_SHADER_DIR)) {
+    shaderDirs.push(shaderDir);
+  }
+  for (const dir of shaderDirs) {
+    try {
+      await loadShaderPlugins(dir);
+    } catch (error) {
+      console.error(`Error: ${error instanceof Error ? error.message : error}`);
+      process.exit(1);
+    }
+  }
+}
+
+/**
+ * Collect media from files on the command line, a directory, or the media
+ * folder. Exits when there is none.
+ */
+async function collectMedia(files: string[], dir?: string, log: (message: string) => void = console.log): Promise<MediaItem[]> {
+  let media: MediaItem[] = [];
+
+  // If specific files provided, use those
+  if (files.length > 0) {
+    for (const file of files) {
+      const type = getMediaType(file);
+      if (type) {
+        media.push({ path: file, type, loop: true });
+      } else {
+        console.warn(`Skipping unsupported file: ${file}`);
+      }
+    }
+  } else if (dir) {
+    // Scan specified directory
+    log(`Scanning directory: ${dir}`);
+    media = await scanDirectory(dir);
+    log(`Found ${media.length} media files`);
+  } else {
+    // Default: scan media folder
+    const mediaDir = getMediaDir();
+    log(`Scanning media folder: ${mediaDir}`);
+    media = await scanDirectory(mediaDir);
+    log(`Found ${media.length} media files`);
+  }
+
+  if (media.length === 0) {
+    console.error("Error: No media files found");
+    log("\nDownload some media first:");
+    log("  video-collage download <url>");
+    log("\nOr specify files directly:");
+    log("  video-collage generate file1.mp4 file2.jpg");
+    process.exit(1);
+  }
+
+  return media;
+}
+
 async function runGenerate(args: string[]) {
   const { values, positionals } = parseArgs({
     args,
@@ -158,19 +426,40 @@ async function runGenerate(args: string[]) {
       rows: { type: "string" },
       layout: { type: "string", short: "l", default: "dynamic" },
       gap: { type: "string", default: "0" },
+      "preserve-order": { type: "boolean" },
+      fit: { type: "string", default: "stretch" },
+      motion: { type: "string" },
+      "motion-intensity": { type: "string" },
+      seed: { type: "string" },
+      slots: { type: "string" },
+      "slot-order": { type: "string" },
+      "item-duration": { type: "string" },
+      crossfade: { type: "string" },
       bg: { type: "string", default: "black" },
       shader: { type: "string", short: "s" },
+      "shader-dir": { type: "string" },
+      audio: { type: "string", short: "a" },
+      music: { type: "string" },
       preset: { type: "string", short: "p", default: "balanced" },
+      codec: { type: "string" },
       gpu: { type: "boolean" },
       "gpu-experimental": { type: "boolean" },
+      seamless: { type: "boolean" },
+      "keep-temp": { type: "boolean" },
+      progress: { type: "string", default: "bar" },
+      "dry-run": { type: "boolean" },
+      "emit-script": { type: "string" },
       init: { type: "boolean" },
       help: { type: "boolean" },
     },
     allowPositionals: true,
   });
 
+  // Register shader plugins before help, config loading and shader validation
+  await registerShaderPlugins(values["shader-dir"]);
+
   if (values.help) {
-    console.log(GENERATE_HELP);
+    console.log(getGenerateHelp());
     process.exit(0);
   }
 
@@ -179,49 +468,38 @@ async function runGenerate(args: string[]) {
     process.exit(0);
   }
 
+  if (!PROGRESS_MODES.includes(values.progress as ProgressMode)) {
+    console.error(`Error: Unknown progress mode '${values.progress}'`);
+    console.log(`\nAvailable progress modes: ${PROGRESS_MODES.join(", ")}`);
+    process.exit(1);
+  }
+
+  // With --progress json, stdout carries only the JSON events
+  const log = values.progress === "json" ? console.error : console.log;
+
   let config: CollageConfig;
 
   if (values.config) {
-    config = await loadConfig(values.config);
-  } else {
-    let media: MediaItem[] = [];
-
-    // If specific files provided, use those
-    if (positionals.length > 0) {
-      for (const file of positionals) {
-        const type = getMediaType(file);
-        if (type) {
-          media.push({ path: file, type, loop: true });
-        } else {
-          console.warn(`Skipping unsupported file: ${file}`);
-        }
-      }
-    } else if (values.dir) {
-      // Scan specified directory
-      console.log(`Scanning directory: ${values.dir}`);
-      media = await scanDirectory(values.dir);
-      console.log(`Found ${media.length} media files`);
-    } else {
-      // Default: scan media folder
-      const mediaDir = getMediaDir();
-      console.log(`Scanning media folder: ${mediaDir}`);
-      media = await scanDirectory(mediaDir);
-      console.log(`Found ${media.length} media files`);
-    }
-
-    if (media.length === 0) {
-      console.error("Error: No media files found");
-      console.log("\nDownload some media first:");
-      console.log("  video-collage download <url>");
-      console.log("\nOr specify files directly:");
-      console.log("  video-collage generate file1.mp4 file2.jpg");
+    try {
+      // Runtime flags override the file (--music takes precedence over --audio)
+      config = await loadConfig(values.config, {
+        keepTemp: values["keep-temp"] || undefined,
+        seamless: values.seamless || undefined,
+        audio: values.music ? { track: values.music } : values.audio,
+      });
+    } catch (error) {
+      console.error(`Error: ${error instanceof Error ? error.message : error}`);
       process.exit(1);
     }
-
-    // Validate shader if provided
-    if (values.shader && !AVAILABLE_SHADERS.includes(values.shader as any)) {
-      console.error(`Error: Unknown shader '${values.shader}'`);
-      console.log(`\nAvailable shaders: ${AVAILABLE_SHADERS.join(", ")}`);
+  } else {
+    const media = await collectMedia(positionals, values.dir, log);
+
+    // Validate shader chain and parameters if provided
+    let shaders: CollageConfig["shader"];
+    try {
+      shaders = values.shader ? normalizeShaderChain(values.shader) : undefined;
+    } catch (error) {
+      console.error(`Error: ${error instanceof Error ? error.message : error}`);
       process.exit(1);
     }
 
@@ -232,6 +510,13 @@ async function runGenerate(args: string[]) {
       process.exit(1);
     }
 
+    // Validate fit mode if provided
+    if (values.fit && !AVAILABLE_FIT_MODES.includes(values.fit as any)) {
+      console.error(`Error: Unknown fit mode '${values.fit}'`);
+      console.log(`\nAvailable fit modes: ${AVAILABLE_FIT_MODES.join(", ")}`);
+      process.exit(1);
+    }
+
     // Validate preset if provided
     if (values.preset && !Object.keys(ENCODING_PRESETS).includes(values.preset)) {
       console.error(`Error: Unknown preset '${values.preset}'`);
@@ -239,8 +524,71 @@ async function runGenerate(args: string[]) {
       process.exit(1);
     }
 
+    // Validate codec against the output extension
+    if (values.codec && !AVAILABLE_CODECS.includes(values.codec as OutputCodec)) {
+      console.error(`Error: Unknown codec '${values.codec}'`);
+      console.log(`\nAvailable codecs: ${AVAILABLE_CODECS.join(", ")}`);
+      process.exit(1);
+    }
+    try {
+      resolveCodec(values.output!, values.codec as OutputCodec | undefined);
+    } catch (error) {
+      console.error(`Error: ${error instanceof Error ? error.message : error}`);
+      process.exit(1);
+    }
+
+    // Resolve audio settings (--music takes precedence over --audio)
+    let audio: CollageConfig["audio"];
+    try {
+      if (values.music) {
+        audio = await normalizeAudioConfig({ track: values.music }, media.length);
+      } else if (values.audio) {
+        audio = await normalizeAudioConfig(values.audio, media.length);
+      }
+    } catch (error) {
+      console.error(`Error: ${error instanceof Error ? error.message : error}`);
+      process.exit(1);
+    }
+
+    // Resolve motion for still images
+    let motion: CollageConfig["motion"];
+    try {
+      if (values.motion) {
+        motion = normalizeMotionConfig({
+          type: values.motion,
+          intensity: values["motion-intensity"] ? parseFloat(values["motion-intensity"]) : undefined,
+          seed: values.seed ? parseInt(values.seed, 10) : undefined,
+        });
+      }
+    } catch (error) {
+      console.error(`Error: ${error instanceof Error ? error.message : error}`);
+      process.exit(1);
+    }
+
+    // Resolve cell playlists
+    let slots: CollageConfig["slots"];
+    try {
+      // Files on the command line have no slot field to assign them by
+      if (values["slot-order"] === "assigned") {
+        throw new Error("Slot order 'assigned' uses each media item's \"slot\" field, so it needs a --config file");
+      }
+      if (values.slots) {
+        slots = normalizeSlotsConfig({
+          count: Number(values.slots),
+          order: values["slot-order"],
+          seed: values.seed ? parseInt(values.seed, 10) : undefined,
+          itemDuration: values["item-duration"] ? parseFloat(values["item-duration"]) : undefined,
+          crossfade: values.crossfade ? parseFloat(values.crossfade) : undefined,
+        });
+      }
+      validateSlotsAudio({ slots, audio });
+    } catch (error) {
+      console.error(`Error: ${error instanceof Error ? error.message : error}`);
+      process.exit(1);
+    }
+
     // Determine layout type
-    const layoutType = values.layout as "grid" | "dynamic" | "masonry" | "treemap" | "pack";
+    const layoutType = values.layout as "grid" | "dynamic" | "masonry" | "treemap" | "pack" | "auto";
 
     config = {
       output: values.output!,
@@ -249,27 +597,168 @@ async function runGenerate(args: string[]) {
       duration: parseInt(values.duration!, 10),
       fps: parseInt(values.fps!, 10),
       background: values.bg,
-      shader: values.shader,
+      shader: shaders,
       preset: values.preset as EncodingPreset,
+      codec: values.codec as OutputCodec | undefined,
       gpu: values.gpu || false,
       gpuExperimental: values["gpu-experimental"] || false,
+      keepTemp: values["keep-temp"] || false,
+      seamless: values.seamless || false,
+      motion,
+      slots,
+      audio,
       layout: {
         type: layoutType,
         columns: values.columns ? parseInt(values.columns, 10) : undefined,
         rows: values.rows ? parseInt(values.rows, 10) : undefined,
         gap: parseInt(values.gap!, 10),
+        fit: values.fit as FitMode,
+        preserveOrder: values["preserve-order"] || false,
       },
       media,
     };
   }
 
+  // Dry run: probe and plan, then print or write the commands instead of encoding
+  if (values["dry-run"] || values["emit-script"]) {
+    try {
+      const plan = await planCollage(config, SCRIPT_WORKDIR);
+
+      if (values["dry-run"]) {
+        printPlan(plan);
+      }
+
+      if (values["emit-script"]) {
+        await Bun.write(values["emit-script"], buildShellScript(plan.jobs));
+        chmodSync(values["emit-script"], 0o755);
+        console.log(`\nScript written to: ${values["emit-script"]}`);
+      }
+    } catch (error) {
+      console.error(`\nError: ${error}`);
+      process.exit(1);
+    }
+    return;
+  }
+
+  try {
+    const output = await generateCollage(config, {
+      onProgress: createProgressReporter(values.progress as ProgressMode),
+      log,
+    });
+    log(`\nOutput saved to: ${output}`);
+  } catch (error) {
+    console.error(`\nError: ${error}`);
+    process.exit(1);
+  }
+}
+
+/**
+ * Print layout scores as a table, one row per layout
+ */
+function printLayoutScores(ranked: RankedLayout[]) {
+  const percent = (value: number) => `${Math.round(value * 100)}%`;
+  const rows = [
+    ["LAYOUT", "SCORE", "COVERAGE", "DISTORTION", "CROP", "SIZE VAR", "OVERLAPS"],
+    ...ranked.map(({ type, score }) => [
+      type,
+      score.score.toFixed(2),
+      percent(score.coverage),
+      `${percent(score.averageDistortion)} / ${percent(score.worstDistortion)}`,
+      percent(score.cropLoss),
+      score.sizeVariance.toFixed(2),
+      String(score.overlaps),
+    ]),
+  ];
+  const widths = rows[0]!.map((_, column) => Math.max(...rows.map(row => row[column]!.length)));
+  for (const row of rows) {
+    console.log(`  ${row.map((cell, column) => (column === 0 ? cell.padEnd(widths[column]!) : cell.padStart(widths[column]!))).join("  ")}`);
+  }
+}
+
+async function runLayout(args: string[]) {
+  const { values, positionals } = parseArgs({
+    args,
+    options: {
+      config: { type: "string", short: "c" },
+      dir: { type: "string", short: "d" },
+      width: { type: "string", short: "w", default: "1920" },
+      height: { type: "string", short: "h", default: "1080" },
+      layout: { type: "string", short: "l", default: "dynamic" },
+      columns: { type: "string" },
+      rows: { type: "string" },
+      gap: { type: "string", default: "0" },
+      "preserve-order": { type: "boolean" },
+      "shader-dir": { type: "string" },
+      compare: { type: "boolean" },
+      help: { type: "boolean" },
+    },
+    allowPositionals: true,
+  });
+
+  if (values.help) {
+    console.log(LAYOUT_HELP);
+    process.exit(0);
+  }
+
+  // Configs can use plugin shaders, which must be registered before loading
+  await registerShaderPlugins(values["shader-dir"]);
+
+  let config: CollageConfig;
+  if (values.config) {
+    try {
+      config = await loadConfig(values.config);
+    } catch (error) {
+      console.error(`Error: ${error instanceof Error ? error.message : error}`);
+      process.exit(1);
+    }
+  } else {
+    if (!AVAILABLE_LAYOUTS.includes(values.layout as any)) {
+      console.error(`Error: Unknown layout '${values.layout}'`);
+      console.log(`\nAvailable layouts: ${AVAILABLE_LAYOUTS.join(", ")}`);
+      process.exit(1);
+    }
+
+    config = {
+      output: "collage.mp4",
+      width: parseInt(values.width!, 10),
+      height: parseInt(values.height!, 10),
+      duration: 60,
+      fps: 30,
+      layout: {
+        type: values.layout as "grid" | "dynamic" | "masonry" | "treemap" | "pack" | "auto",
+        columns: values.columns ? parseInt(values.columns, 10) : undefined,
+        rows: values.rows ? parseInt(values.rows, 10) : undefined,
+        gap: parseInt(values.gap!, 10),
+        preserveOrder: values["preserve-order"] || false,
+      },
+      media: await collectMedia(positionals, values.dir),
+    };
+  }
+
+  if (config.layout.type === "custom") {
+    console.error("Error: Custom layouts have fixed positions and can't be compared");
+    process.exit(1);
+  }
+
+  let ranked: RankedLayout[];
   try {
-    await generateCollage(config);
-    console.log(`\nOutput saved to: ${config.output}`);
+    ranked = await compareLayouts(config);
   } catch (error) {
     console.error(`\nError: ${error}`);
     process.exit(1);
   }
+
+  const { width, height, media, layout } = config;
+  console.log(`\n${media.length} media items on a ${width}x${height} canvas:\n`);
+  if (values.compare) {
+    printLayoutScores(ranked);
+    console.log(`\nThe auto layout would use ${ranked[0]!.type}.`);
+  } else {
+    // auto picks the best scoring layout
+    const chosen = layout.type === "auto" ? ranked[0]! : ranked.find(entry => entry.type === layout.type)!;
+    printLayoutScores([chosen]);
+    console.log("\nRun with --compare to score every layout.");
+  }
 }
 
 async function runDownload(args: string[]) {
@@ -362,6 +851,9 @@ async function main() {
       await runGenerate(args.slice(1));
       break;
 
+    case "layout":
+      await runLayout(args.slice(1));
+      break;
     case "download":
     case "dl":
       await runDownload(args.slice(1));
@@ -0,0 +1,137 @@
+import { describe, test, expect } from "bun:test";
+import type { MediaItem } from "./types";
+import {
+  ease,
+  interpolateRect,
+  buildKeyframeExpression,
+  buildCellTracks,
+  matchCells,
+  AVAILABLE_EASINGS,
+  type CellKeyframe,
+} from "./keyframes";
+
+const rect = (x: number, y: number, width: number, height: number) => ({ x, y, width, height });
+
+describe("keyframes", () => {
+  describe("ease", () => {
+    test("every curve runs from 0 to 1", () => {
+      for (const easing of AVAILABLE_EASINGS) {
+        expect(ease(easing, 0)).toBe(0);
+        expect(ease(easing, 1)).toBe(1);
+      }
+    });
+
+    test("curves differ halfway through", () => {
+      expect(ease("linear", 0.5)).toBe(0.5);
+      expect(ease("ease-in", 0.5)).toBe(0.25);
+      expect(ease("ease-out", 0.5)).toBe(0.75);
+      expect(ease("ease-in-out", 0.25)).toBeCloseTo(0.15625);
+    });
+  });
+
+  describe("interpolateRect", () => {
+    const keyframes: CellKeyframe[] = [
+      { time: 2, rect: rect(0, 0, 100, 100) },
+      { time: 4, rect: rect(100, 50, 200, 100), easing: "linear" },
+    ];
+
+    test("moves between keyframes with the easing", () => {
+      expect(interpolateRect(keyframes, 3)).toEqual(rect(50, 25, 150, 100));
+      expect(interpolateRect([keyframes[0]!, { ...keyframes[1]!, easing: "ease-in" }], 3)).toEqual(
+        rect(25, 12.5, 125, 100)
+      );
+    });
+
+    test("holds the first and last keyframes", () => {
+      expect(interpolateRect(keyframes, 0)).toEqual(rect(0, 0, 100, 100));
+      expect(interpolateRect(keyframes, 9)).toEqual(rect(100, 50, 200, 100));
+    });
+  });
+
+  describe("buildKeyframeExpression", () => {
+    test("returns a number for values that never change", () => {
+      const keyframes = [
+        { time: 0, rect: rect(4, 4, 100, 100) },
+        { time: 1, rect: rect(4, 200, 100, 100) },
+      ];
+      expect(buildKeyframeExpression(keyframes, "x")).toBe("4");
+    });
+
+    test("eases each move and holds after it", () => {
+      const keyframes: CellKeyframe[] = [
+        { time: 0, rect: rect(0, 0, 100, 100) },
+        { time: 2, rect: rect(0, 0, 100, 100) },
+        { time: 3, rect: rect(300, 0, 100, 100), easing: "linear" },
+        { time: 5, rect: rect(300, 0, 100, 100) },
+        { time: 5.5, rect: rect(100, 0, 100, 100), easing: "ease-in" },
+      ];
+      expect(buildKeyframeExpression(keyframes, "x")).toBe(
+        "if(lt(t,3),0+300*clip((t-2)/1,0,1),if(lt(t,5.5),300-200*pow(clip((t-5)/0.5,0,1),2),100))"
+      );
+    });
+
+    test("jumps between keyframes at the same time", () => {
+      const keyframes = [
+        { time: 0, rect: rect(0, 0, 100, 100) },
+        { time: 4, rect: rect(0, 0, 100, 100) },
+        { time: 4, rect: rect(500, 0, 100, 100) },
+      ];
+      expect(buildKeyframeExpression(keyframes, "x")).toBe("if(lt(t,4),0,500)");
+    });
+  });
+
+  describe("buildCellTracks", () => {
+    const steps = [
+      { start: 0, duration: 0 },
+      { start: 5, duration: 1, easing: "linear" as const },
+      { start: 10, duration: 2 },
+    ];
+
+    test("moves cells that stay from one rectangle to the next", () => {
+      const [track] = buildCellTracks([[rect(0, 0, 50, 50)], [rect(50, 0, 50, 50)], [rect(50, 0, 50, 50)]], steps, 15);
+      expect(track!.visible).toEqual([{ start: 0, end: 15, fadeIn: 0, fadeOut: 0 }]);
+      expect(interpolateRect(track!.keyframes, 5.5)).toEqual(rect(25, 0, 50, 50));
+      expect(interpolateRect(track!.keyframes, 11)).toEqual(rect(50, 0, 50, 50));
+    });
+
+    test("fades cells in when they appear and out when they leave", () => {
+      const tracks = buildCellTracks(
+        [[rect(0, 0, 50, 50), undefined], [undefined, rect(0, 0, 100, 50)], [rect(0, 0, 20, 20), undefined]],
+        steps,
+        15
+      );
+      expect(tracks[0]!.visible).toEqual([
+        { start: 0, end: 6, fadeIn: 0, fadeOut: 1 },
+        { start: 10, end: 15, fadeIn: 2, fadeOut: 0 },
+      ]);
+      expect(interpolateRect(tracks[0]!.keyframes, 5.5)).toEqual(rect(0, 0, 50, 50));
+      expect(tracks[1]!.visible).toEqual([{ start: 5, end: 12, fadeIn: 1, fadeOut: 2 }]);
+    });
+  });
+
+  describe("matchCells", () => {
+    const item = (path: string): MediaItem => ({ path, type: "video" });
+
+    test("matches items showing the same file", () => {
+      const { cells, indices } = matchCells([
+        [item("a.mp4"), item("b.mp4")],
+        [item("c.mp4"), item("a.mp4")],
+      ]);
+      expect(cells.map(cell => cell.path)).toEqual(["a.mp4", "b.mp4", "c.mp4"]);
+      expect(indices).toEqual([
+        [0, 1],
+        [2, 0],
+      ]);
+    });
+
+    test("matches repeated files in order", () => {
+      const { cells, indices } = matchCells([[item("a.mp4"), item("a.mp4")], [item("a.mp4")]]);
+      expect(cells).toHaveLength(2);
+      expect(indices).toEqual([[0, 1], [0]]);
+    });
+  });
+
+  test("AVAILABLE_EASINGS has all expected curves", () => {
+    expect(AVAILABLE_EASINGS).toEqual(["linear", "ease-in", "ease-out", "ease-in-out"]);
+  });
+});
@@ -0,0 +1,196 @@
+/**
+ * Keyframed cell positions
+ *
+ * A morph transition moves every cell from its place in one scene's layout
+ * to its place in the next. Each cell becomes a track of keyframes (time,
+ * rectangle, easing), which are turned into ffmpeg expressions of `t` so the
+ * scale and overlay filters follow the cell frame by frame.
+ */
+
+import type { CellPosition, Easing, MediaItem } from "./types";
+
+export const AVAILABLE_EASINGS: Easing[] = ["linear", "ease-in", "ease-out", "ease-in-out"];
+
+export const DEFAULT_EASING: Easing = "ease-in-out";
+
+export type CellRect = Omit<CellPosition, "mediaIndex">;
+
+export interface CellKeyframe {
+  time: number; // Seconds from the start of the clip
+  rect: CellRect;
+  easing?: Easing; // Curve from the previous keyframe to this one (default: ease-in-out)
+}
+
+export interface CellVisibility {
+  start: number;
+  end: number;
+  fadeIn: number; // Seconds of fade-in from start (0 = appear at once)
+  fadeOut: number; // Seconds of fade-out before end (0 = disappear at once)
+}
+
+export interface CellTrack {
+  keyframes: CellKeyframe[];
+  visible: CellVisibility[]; // Time ranges the cell is on screen
+}
+
+/**
+ * Where each scene starts and how the cells move into it
+ */
+export interface MorphStep {
+  start: number;
+  duration: number; // Length of the move into this step (0 for the first)
+  easing?: Easing;
+}
+
+const RECT_KEYS = ["x", "y", "width", "height"] as const;
+
+/**
+ * Apply an easing curve to progress p (0..1)
+ */
+export function ease(easing: Easing, p: number): number {
+  switch (easing) {
+    case "linear":
+      return p;
+    case "ease-in":
+      return p * p;
+    case "ease-out":
+      return 1 - (1 - p) * (1 - p);
+    case "ease-in-out":
+      return p * p * (3 - 2 * p);
+  }
+}
+
+/**
+ * The same curve as an ffmpeg expression of a progress expression
+ */
+export function getEasingExpression(easing: Easing, p: string): string {
+  switch (easing) {
+    case "linear":
+      return p;
+    case "ease-in":
+      return `pow(${p},2)`;
+    case "ease-out":
+      return `(1-pow(1-${p},2))`;
+    case "ease-in-out":
+      return `(pow(${p},2)*(3-2*${p}))`;
+  }
+}
+
+/**
+ * Cell rectangle at a point in time. Holds the first and last keyframes
+ * outside their range.
+ */
+export function interpolateRect(keyframes: CellKeyframe[], time: number): CellRect {
+  const nextIndex = keyframes.findIndex(keyframe => keyframe.time > time);
+  if (nextIndex === -1) return keyframes[keyframes.length - 1]!.rect;
+  if (nextIndex === 0) return keyframes[0]!.rect;
+
+  const from = keyframes[nextIndex - 1]!;
+  const to = keyframes[nextIndex]!;
+  const p = ease(to.easing ?? DEFAULT_EASING, (time - from.time) / (to.time - from.time));
+  const rect = { x: 0, y: 0, width: 0, height: 0 };
+  for (const key of RECT_KEYS) {
+    rect[key] = from.rect[key] + (to.rect[key] - from.rect[key]) * p;
+  }
+  return rect;
+}
+
+/**
+ * Build an ffmpeg expression of `t` for one side of a cell rectangle.
+ * Keyframes that don't change the value are folded into holds, so a cell
+ * that never moves gets a plain number. Two keyframes at the same time
+ * make the value jump.
+ */
+export function buildKeyframeExpression(keyframes: CellKeyframe[], key: keyof CellRect): string {
+  const changes = keyframes.flatMap((keyframe, i) => {
+    const from = keyframes[i - 1];
+    return from && from.rect[key] !== keyframe.rect[key] ? [{ from, to: keyframe }] : [];
+  });
+
+  // Each change applies until its end time; later changes are nested in the else branch.
+  // Progress is clipped to 0..1, so a move holds its start value until it begins.
+  return changes.reduceRight((rest, { from, to }) => {
+    const start = from.rect[key];
+    const length = to.time - from.time;
+    if (length <= 0) {
+      return `if(lt(t,${to.time}),${start},${rest})`;
+    }
+    const p = `clip((t-${from.time})/${round(length)},0,1)`;
+    const delta = to.rect[key] - start;
+    const sign = delta < 0 ? "-" : "+";
+    return `if(lt(t,${to.time}),${start}${sign}${Math.abs(delta)}*${getEasingExpression(to.easing ?? DEFAULT_EASING, p)},${rest})`;
+  }, String(keyframes[keyframes.length - 1]!.rect[key]));
+}
+
+/**
+ * Build one track per cell from its rectangle in each step (undefined when
+ * the cell is not part of that step). Cells in consecutive steps move
+ * between their rectangles; cells that appear or leave fade in or out over
+ * the step's move instead. The last step runs until end.
+ */
+export function buildCellTracks(rects: (CellRect | undefined)[][], steps: MorphStep[], end: number): CellTrack[] {
+  const trackCount = Math.max(0, ...rects.map(step => step.length));
+
+  return Array.from({ length: trackCount }, (_, track) => {
+    const keyframes: CellKeyframe[] = [];
+    const visible: CellVisibility[] = [];
+
+    steps.forEach((step, i) => {
+      const rect = rects[i]?.[track];
+      if (!rect) return;
+
+      const previous = i > 0 ? rects[i - 1]?.[track] : undefined;
+      if (previous) {
+        keyframes.push({ time: step.start, rect: previous });
+        keyframes.push({ time: step.start + step.duration, rect, easing: step.easing });
+      } else {
+        keyframes.push({ time: step.start, rect });
+        visible.push({ start: step.start, end, fadeIn: step.duration, fadeOut: 0 });
+      }
+
+      // Leaving: stay in place while fading out over the next step's move
+      const next = steps[i + 1];
+      if (next && !rects[i + 1]?.[track]) {
+        const range = visible[visible.length - 1]!;
+        range.end = next.start + next.duration;
+        range.fadeOut = next.duration;
+        keyframes.push({ time: range.end, rect });
+      }
+    });
+
+    return { keyframes, visible };
+  });
+}
+
+/**
+ * Match the media of consecutive steps to shared cells. Items showing the
+ * same file are the same cell; a file shown twice in a step matches its
+ * occurrences in order. Returns the first item of each cell and, for each
+ * step, the cell index of every media item.
+ */
+export function matchCells(steps: MediaItem[][]): { cells: MediaItem[]; indices: number[][] } {
+  const cells: MediaItem[] = [];
+  const cellsByPath = new Map<string, number[]>();
+
+  const indices = steps.map(media => {
+    const seen = new Map<string, number>();
+    return media.map(item => {
+      const occurrence = seen.get(item.path) ?? 0;
+      seen.set(item.path, occurrence + 1);
+
+      const matches = cellsByPath.get(item.path) ?? [];
+      if (occurrence >= matches.length) {
+        matches.push(cells.length);
+        cellsByPath.set(item.path, matches);
+        cells.push(item);
+      }
+      return matches[occurrence]!;
+    });
+  });
+
+  return { cells, indices };
+}
+
+function round(value: number): number {
+  return Math.round(value * 10000) / 10000;
+}
@@ -8,13 +8,27 @@ import {
   calculatePackLayout,
   mediaToLayoutItem,
   clampPositions,
+  getLayoutCoverage,
+  scoreLayout,
+  rankLayouts,
+  validateLayout,
+  SCORED_LAYOUTS,
+  DEFAULT_ASPECT_TOLERANCE,
   type LayoutItem,
 } from "./layout";
+import { createRandom } from "./random";
+import type { CellPin, CellPosition } from "./types";
 
 describe("Layout Engine", () => {
   const createItems = (count: number, aspect: number = 16 / 9): LayoutItem[] =>
     Array.from({ length: count }, (_, i) => ({ index: i, aspect }));
 
+  const randomItems = (seed: number): LayoutItem[] => {
+    const random = createRandom(seed);
+    const count = 2 + Math.floor(random() * 30);
+    return Array.from({ length: count }, (_, index) => ({ index, aspect: 0.5 + random() * 2 }));
+  };
+
   describe("calculateGridLayout", () => {
     test("creates correct number of cells", () => {
       const positions = calculateGridLayout(6, 1920, 1080, 3, 2, 0);
@@ -84,6 +98,62 @@ describe("Layout Engine", () => {
       const positions = calculateDynamicLayout(items, 1920, 1080, 0);
       expect(positions).toHaveLength(4);
     });
+
+    const groupRows = (positions: CellPosition[]): CellPosition[][] => {
+      const rows = new Map<number, CellPosition[]>();
+      for (const pos of positions) {
+        rows.set(pos.y, [...(rows.get(pos.y) ?? []), pos]);
+      }
+      return [...rows.values()].map(row => row.sort((a, b) => a.x - b.x));
+    };
+
+    test("rows fill the canvas width and height", () => {
+      for (let seed = 0; seed < 50; seed++) {
+        const items = randomItems(seed);
+        const positions = calculateDynamicLayout(items, 1920, 1080, 8);
+        expect(positions).toHaveLength(items.length);
+
+        const rows = groupRows(positions);
+        for (const row of rows) {
+          expect(row[0]!.x).toBe(8);
+          expect(row[row.length - 1]!.x + row[row.length - 1]!.width).toBe(1920 - 8);
+          row.slice(1).forEach((pos, i) => expect(pos.x).toBe(row[i]!.x + row[i]!.width + 8));
+        }
+        const last = rows[rows.length - 1]![0]!;
+        expect(last.y + last.height).toBe(1080 - 8);
+      }
+    });
+
+    test("keeps row heights within a factor of two", () => {
+      for (let seed = 0; seed < 50; seed++) {
+        for (const preserveOrder of [false, true]) {
+          const heights = groupRows(calculateDynamicLayout(randomItems(seed), 1920, 1080, 8, preserveOrder)).map(
+            row => row[0]!.height
+          );
+          expect(Math.max(...heights) / Math.min(...heights)).toBeLessThan(2);
+        }
+      }
+    });
+
+    test("evens out rows that a fixed item count per row would leave uneven", () => {
+      // Three wide items and three tall ones: rows of three would be 360px and 1138px tall at full width
+      const items: LayoutItem[] = [16 / 9, 9 / 16, 16 / 9, 9 / 16, 16 / 9, 9 / 16].map((aspect, index) => ({ index, aspect }));
+      const heights = groupRows(calculateDynamicLayout(items, 1920, 1080, 0)).map(row => row[0]!.height);
+      expect(Math.max(...heights) / Math.min(...heights)).toBeLessThan(1.5);
+    });
+
+    test("preserveOrder keeps items in reading order", () => {
+      const items = randomItems(3);
+      const positions = calculateDynamicLayout(items, 1920, 1080, 4, true);
+      const readingOrder = groupRows(positions).flat().map(pos => pos.mediaIndex);
+      expect(readingOrder).toEqual(items.map(item => item.index));
+    });
+
+    test("calculateLayout passes preserveOrder to the dynamic layout", () => {
+      const items = [2, 0.6, 1.8, 0.5].map((aspect, index) => ({ index, aspect }));
+      const positions = calculateLayout(items, { type: "dynamic", canvasWidth: 1920, canvasHeight: 1080, preserveOrder: true });
+      expect(groupRows(positions).flat().map(pos => pos.mediaIndex)).toEqual([0, 1, 2, 3]);
+    });
   });
 
   describe("calculateMasonryLayout", () => {
@@ -154,6 +224,276 @@ describe("Layout Engine", () => {
         expect(pos.height).toBeGreaterThan(0);
       }
     });
+
+    const apart = (a: CellPosition, b: CellPosition, gap: number) =>
+      a.x + a.width + gap <= b.x || b.x + b.width + gap <= a.x || a.y + a.height + gap <= b.y || b.y + b.height + gap <= a.y;
+
+    test("cells never overlap and keep the gap between them", () => {
+      for (let seed = 0; seed < 40; seed++) {
+        const positions = calculatePackLayout(randomItems(seed), 1920, 1080, 8);
+        positions.forEach((a, i) => {
+          expect(a.x).toBeGreaterThanOrEqual(8);
+          expect(a.y).toBeGreaterThanOrEqual(8);
+          expect(a.x + a.width).toBeLessThanOrEqual(1920 - 8);
+          expect(a.y + a.height).toBeLessThanOrEqual(1080 - 8);
+          for (const b of positions.slice(i + 1)) {
+            expect(apart(a, b, 8)).toBe(true);
+          }
+        });
+      }
+    });
+
+    test("keeps every cell's aspect ratio within the tolerance", () => {
+      for (let seed = 0; seed < 40; seed++) {
+        const items = randomItems(seed);
+        for (const pos of calculatePackLayout(items, 1920, 1080, 4, 0.1)) {
+          const ratio = pos.width / pos.height / items[pos.mediaIndex]!.aspect;
+          // One pixel of rounding on the short side
+          const slack = 1 / Math.min(pos.width, pos.height);
+          expect(ratio).toBeLessThanOrEqual(1.1 + slack);
+          expect(ratio).toBeGreaterThanOrEqual(1 / 1.1 - slack);
+        }
+      }
+    });
+
+    test("covers most of the canvas", () => {
+      let total = 0;
+      for (let seed = 0; seed < 40; seed++) {
+        total += getLayoutCoverage(calculatePackLayout(randomItems(seed), 1920, 1080, 8), 1920, 1080);
+      }
+      expect(total / 40).toBeGreaterThan(0.75);
+      // Six 16:9 cells in a 3x2 arrangement cover 2/3; growing within the tolerance adds the rest
+      expect(getLayoutCoverage(calculatePackLayout(createItems(6), 1920, 1080, 0), 1920, 1080)).toBeGreaterThan(0.75);
+    });
+
+    test("gives heavier items more room", () => {
+      const items = createItems(4).map(item => ({ ...item, area: item.index === 2 ? 4 : 1 }));
+      const positions = calculatePackLayout(items, 1920, 1080, 0);
+      const area = (index: number) => positions.find(pos => pos.mediaIndex === index)!;
+      expect(area(2).width).toBeGreaterThan(area(0).width * 1.5);
+    });
+  });
+
+  describe("getLayoutCoverage", () => {
+    test("returns the covered fraction of the canvas", () => {
+      expect(getLayoutCoverage(calculateGridLayout(4, 100, 100, 2, 2), 100, 100)).toBe(1);
+      expect(getLayoutCoverage([{ x: 0, y: 0, width: 50, height: 50, mediaIndex: 0 }], 100, 100)).toBe(0.25);
+      expect(getLayoutCoverage([], 100, 100)).toBe(0);
+    });
+  });
+
+  describe("validateLayout", () => {
+    const cell = (mediaIndex: number, x: number, y: number, width: number, height: number): CellPosition => ({
+      mediaIndex,
+      x,
+      y,
+      width,
+      height,
+    });
+    const types = (positions: CellPosition[], itemCount: number, gap = 0) =>
+      validateLayout(positions, itemCount, 200, 100, gap).map(violation => violation.type);
+
+    test("accepts a valid layout", () => {
+      expect(validateLayout(calculateGridLayout(6, 200, 100, 3, 2, 4), 6, 200, 100, 4)).toEqual([]);
+    });
+
+    test("reports missing, duplicate and unknown items", () => {
+      const violations = validateLayout([cell(0, 0, 0, 50, 50), cell(0, 50, 0, 50, 50), cell(5, 100, 0, 50, 50)], 2, 200, 100);
+      expect(violations).toEqual([
+        { type: "missing", mediaIndices: [1], message: "Item #1 has no cell" },
+        { type: "duplicate", mediaIndices: [0], message: "Item #0 has 2 cells" },
+        { type: "unknown", mediaIndices: [5], message: "Cell #5 has no item (expected 0-1)" },
+      ]);
+    });
+
+    test("reports empty and out-of-bounds cells", () => {
+      expect(types([cell(0, 0, 0, 0, 50)], 1)).toEqual(["zero-size"]);
+      expect(types([cell(0, 150, 0, 60, 50)], 1)).toEqual(["out-of-bounds"]);
+      expect(types([cell(0, -1, 0, 60, 50)], 1)).toEqual(["out-of-bounds"]);
+    });
+
+    test("reports overlapping cells", () => {
+      const violations = validateLayout([cell(0, 0, 0, 100, 100), cell(1, 99, 0, 101, 100)], 2, 200, 100);
+      expect(violations.map(violation => violation.type)).toEqual(["overlap"]);
+      expect(violations[0]!.mediaIndices).toEqual([0, 1]);
+    });
+
+    test("reports cells closer than the gap to each other or the canvas edge", () => {
+      expect(types([cell(0, 4, 4, 90, 92), cell(1, 96, 4, 100, 92)], 2, 4)).toEqual(["gap"]);
+      expect(types([cell(0, 2, 4, 90, 92)], 1, 4)).toEqual(["gap"]);
+      // Cells that are apart on one axis don't need a gap on the other
+      expect(types([cell(0, 4, 4, 90, 44), cell(1, 60, 52, 136, 44)], 2, 4)).toEqual([]);
+    });
+  });
+
+  describe("layout invariants", () => {
+    const pins: CellPin[] = ["top-left", "center", "bottom-right", { row: 1, column: 2 }];
+
+    // Random media set, gap and canvas; the same seed always gives the same case
+    const randomCase = (seed: number) => {
+      const random = createRandom(seed);
+      const count = 1 + Math.floor(random() * 40);
+      const items: LayoutItem[] = Array.from({ length: count }, (_, index) => ({
+        index,
+        aspect: Math.exp((random() * 2 - 1) * Math.log(4)), // 1:4 to 4:1
+        area: random() < 0.2 ? 1 + random() * 3 : undefined,
+        pin: random() < 0.1 ? pins[Math.floor(random() * pins.length)] : undefined,
+      }));
+      return {
+        items,
+        canvasWidth: 320 + Math.floor(random() * 3520),
+        canvasHeight: 240 + Math.floor(random() * 1920),
+        gap: random() < 0.25 ? 0 : Math.floor(random() * 17),
+      };
+    };
+
+    for (const type of SCORED_LAYOUTS) {
+      test(`${type} layouts are always valid`, () => {
+        for (let seed = 0; seed < 200; seed++) {
+          const { items, ...canvas } = randomCase(seed);
+          const positions = calculateLayout(items, { type, ...canvas });
+          const violations = validateLayout(positions, items.length, canvas.canvasWidth, canvas.canvasHeight, canvas.gap);
+          // Name the seed so a failure can be replayed
+          expect(violations.map(violation => `seed ${seed}: ${violation.message}`)).toEqual([]);
+        }
+      });
+    }
+  });
+
+  describe("scoreLayout", () => {
+    const canvas = { width: 200, height: 100 };
+    const cell = (mediaIndex: number, x: number, y: number, width: number, height: number): CellPosition => ({
+      mediaIndex,
+      x,
+      y,
+      width,
+      height,
+    });
+
+    test("scores a perfect layout at full marks", () => {
+      const score = scoreLayout([cell(0, 0, 0, 100, 100), cell(1, 100, 0, 100, 100)], createItems(2, 1), canvas);
+      expect(score).toEqual({
+        coverage: 1,
+        averageDistortion: 0,
+        worstDistortion: 0,
+        cropLoss: 0,
+        sizeVariance: 0,
+        overlaps: 0,
+        score: 1,
+      });
+    });
+
+    test("measures distortion and crop loss against each item's aspect", () => {
+      // A square cell for 2:1 media is half as wide as it should be
+      const score = scoreLayout([cell(0, 0, 0, 100, 100), cell(1, 100, 0, 100, 100)], [
+        { index: 0, aspect: 1 },
+        { index: 1, aspect: 2 },
+      ], canvas);
+      expect(score.averageDistortion).toBe(0.5);
+      expect(score.worstDistortion).toBe(1);
+      expect(score.cropLoss).toBe(0.25);
+      expect(score.score).toBe(0.75);
+    });
+
+    test("measures uneven sizes relative to item weights", () => {
+      const positions = [cell(0, 0, 0, 100, 100), cell(1, 100, 0, 50, 50)];
+      expect(scoreLayout(positions, createItems(2, 1), canvas).sizeVariance).toBeCloseTo(0.6);
+      const weighted = [{ index: 0, aspect: 1, area: 4 }, { index: 1, aspect: 1 }];
+      expect(scoreLayout(positions, weighted, canvas).sizeVariance).toBe(0);
+    });
+
+    test("counts overlapping pairs and penalizes them", () => {
+      const positions = [cell(0, 0, 0, 100, 100), cell(1, 50, 0, 100, 100), cell(2, 100, 0, 100, 100)];
+      const score = scoreLayout(positions, createItems(3, 1), canvas);
+      expect(score.overlaps).toBe(2);
+      expect(score.score).toBeLessThan(0);
+    });
+
+    test("scores an empty layout as zero", () => {
+      expect(scoreLayout([], [], canvas).score).toBe(0);
+    });
+  });
+
+  describe("rankLayouts", () => {
+    test("scores every algorithm, best first", () => {
+      const ranked = rankLayouts(randomItems(3), { type: "auto", canvasWidth: 1920, canvasHeight: 1080, gap: 4 });
+      expect(ranked.map(entry => entry.type).sort()).toEqual([...SCORED_LAYOUTS].sort());
+      for (let i = 1; i < ranked.length; i++) {
+        expect(ranked[i]!.score.score).toBeLessThanOrEqual(ranked[i - 1]!.score.score);
+      }
+    });
+
+    test("the auto layout uses the best scoring algorithm", () => {
+      const items = randomItems(5);
+      const options = { canvasWidth: 1920, canvasHeight: 1080, gap: 4 };
+      const [best] = rankLayouts(items, { ...options, type: "auto" });
+      expect(calculateLayout(items, { ...options, type: "auto" })).toEqual(best!.positions);
+    });
+  });
+
+  describe("weights and pins", () => {
+    const options = { canvasWidth: 1920, canvasHeight: 1080, gap: 4 };
+    const featured = (count: number, extra: Partial<LayoutItem>): LayoutItem[] =>
+      createItems(count).map(item => (item.index === 3 ? { ...item, ...extra } : item));
+    const cellOf = (positions: CellPosition[], index: number) => positions.find(pos => pos.mediaIndex === index)!;
+    const area = (pos: CellPosition) => pos.width * pos.height;
+
+    test("heavier items get bigger cells", () => {
+      for (const type of ["treemap", "pack", "dynamic"] as const) {
+        const positions = calculateLayout(featured(7, { area: 2 }), { ...options, type });
+        const others = positions.filter(pos => pos.mediaIndex !== 3).map(area);
+        expect(area(cellOf(positions, 3))).toBeGreaterThan(Math.max(...others));
+      }
+    });
+
+    test("heavier items span dynamic rows at their own aspect ratio", () => {
+      const positions = calculateDynamicLayout(featured(7, { area: 2 }), 1920, 1080, 4);
+      const cell = cellOf(positions, 3);
+      const rowsBeside = new Set(positions.filter(pos => pos.y >= cell.y && pos.y < cell.y + cell.height).map(pos => pos.y));
+      expect(rowsBeside.size).toBe(2);
+      expect(Math.abs(cell.width / cell.height / (16 / 9) - 1)).toBeLessThan(DEFAULT_ASPECT_TOLERANCE);
+    });
+
+    test("pinned items take the cell nearest their anchor", () => {
+      for (const type of ["grid", "dynamic", "treemap", "pack"] as const) {
+        for (const [pin, corner] of [["top-left", (pos: CellPosition) => pos.x + pos.y], ["bottom-right", (pos: CellPosition) => -(pos.x + pos.width + pos.y + pos.height)]] as const) {
+          const positions = calculateLayout(featured(7, { pin }), { ...options, type });
+          const nearest = positions.reduce((best, pos) => (corner(pos) < corner(best) ? pos : best));
+          expect(nearest.mediaIndex).toBe(3);
+        }
+      }
+    });
+
+    test("a featured item can be twice as big and centered", () => {
+      const positions = calculatePackLayout(featured(9, { area: 2, pin: "center" }), 1920, 1080, 4);
+      const cell = cellOf(positions, 3);
+      expect(Math.abs(cell.x + cell.width / 2 - 960)).toBeLessThan(100);
+      expect(Math.abs(cell.y + cell.height / 2 - 540)).toBeLessThan(100);
+      expect(area(cell)).toBeGreaterThan(Math.max(...positions.filter(pos => pos !== cell).map(area)));
+    });
+
+    test("pins survive the grid fallback of a pack that does not fit", () => {
+      const positions = calculatePackLayout(featured(4, { pin: "top-left" }), 10, 10, 3);
+      // The fallback uses the grid's cells
+      expect(positions.map(pos => [pos.x, pos.y])).toEqual(calculateGridLayout(4, 10, 10, undefined, undefined, 3).map(pos => [pos.x, pos.y]));
+      const corner = positions.reduce((best, pos) => (pos.x + pos.y < best.x + best.y ? pos : best));
+      expect(corner.mediaIndex).toBe(3);
+    });
+
+    test("explicit cells pin to a row and column", () => {
+      const positions = calculateLayout(featured(6, { pin: { row: 1, column: 0 } }), { ...options, type: "grid" });
+      const cell = cellOf(positions, 3);
+      expect(cell.x).toBe(positions[0]!.x);
+      expect(cell.y).toBeGreaterThan(positions[0]!.y);
+      expect(positions.map(pos => pos.mediaIndex).sort()).toEqual([0, 1, 2, 3, 4, 5]);
+    });
+
+    test("the first of two items pinned to the same place keeps it", () => {
+      const items = createItems(6).map(item => (item.index >= 4 ? { ...item, pin: "top-left" as const } : item));
+      const positions = calculateLayout(items, { ...options, type: "dynamic" });
+      const first = positions.reduce((best, pos) => (pos.x + pos.y < best.x + best.y ? pos : best));
+      expect(first.mediaIndex).toBe(4);
+    });
   });
 
   describe("calculateLayout dispatcher", () => {
@@ -207,6 +547,16 @@ describe("Layout Engine", () => {
       expect(item.aspect).toBeCloseTo(16 / 9, 2);
     });
 
+    test("uses display dimensions for rotated media", () => {
+      const info = {
+        width: 1920, height: 1080, displayWidth: 1080, displayHeight: 1920,
+        rotation: 90, duration: 60, hasAudio: true, fps: 30,
+      };
+      const item = mediaToLayoutItem(info, 0);
+
+      expect(item.aspect).toBeCloseTo(9 / 16, 2);
+    });
+
     test("uses default aspect ratio for undefined info", () => {
       const item = mediaToLayoutItem(undefined, 0);
 
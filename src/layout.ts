@@ -6,15 +6,16 @@
  * fixed square constraints.
  */
 
-import type { MediaInfo, CellPosition } from "./types";
+import type { MediaInfo, CellPosition, CellPin, PinAnchor } from "./types";
 
 export interface LayoutItem {
   index: number;
   aspect: number;  // width / height
-  area?: number;   // optional weight for treemap
+  area?: number;   // relative size, e.g. 2 for twice the area (default: 1)
+  pin?: CellPin;   // where the cell should be placed
 }
 
-export type LayoutType = "grid" | "dynamic" | "masonry" | "treemap" | "pack";
+export type LayoutType = "grid" | "dynamic" | "masonry" | "treemap" | "pack" | "auto";
 
 export interface LayoutOptions {
   type: LayoutType;
@@ -24,6 +25,59 @@ export interface LayoutOptions {
   columns?: number;
   rows?: number;
   padding?: number;
+  preserveOrder?: boolean; // Keep items in input order (dynamic layout)
+  aspectTolerance?: number; // How far a cell's aspect ratio may stray from its item's (pack layout)
+}
+
+// Pack cells may be up to 15% wider or taller than their media
+export const DEFAULT_ASPECT_TOLERANCE = 0.15;
+
+// Point on the canvas (0-1) for each pin anchor
+const PIN_ANCHORS: Record<PinAnchor, { x: number; y: number }> = {
+  "top-left": { x: 0, y: 0 },
+  top: { x: 0.5, y: 0 },
+  "top-right": { x: 1, y: 0 },
+  left: { x: 0, y: 0.5 },
+  center: { x: 0.5, y: 0.5 },
+  right: { x: 1, y: 0.5 },
+  "bottom-left": { x: 0, y: 1 },
+  bottom: { x: 0.5, y: 1 },
+  "bottom-right": { x: 1, y: 1 },
+};
+
+export const AVAILABLE_PIN_ANCHORS = Object.keys(PIN_ANCHORS) as PinAnchor[];
+
+// Algorithms the auto layout chooses between
+export const SCORED_LAYOUTS: Exclude<LayoutType, "auto">[] = ["grid", "dynamic", "masonry", "treemap", "pack"];
+
+/**
+ * How well a layout fits its media
+ */
+export interface LayoutScore {
+  coverage: number; // Fraction of the canvas covered by cells (0-1)
+  averageDistortion: number; // Mean stretch of a cell's aspect ratio against its media's (0 = exact, 0.15 = 15% wider or taller)
+  worstDistortion: number; // Largest stretch of any cell
+  cropLoss: number; // Fraction of the media that `cover` would crop away, weighted by cell area (0-1)
+  sizeVariance: number; // Spread of cell sizes after weights (coefficient of variation, 0 = all equal)
+  overlaps: number; // Pairs of overlapping cells
+  score: number; // Combined score, higher is better
+}
+
+export type LayoutViolationType = "out-of-bounds" | "overlap" | "zero-size" | "missing" | "duplicate" | "unknown" | "gap";
+
+/**
+ * A broken layout invariant
+ */
+export interface LayoutViolation {
+  type: LayoutViolationType;
+  mediaIndices: number[]; // Cells (or, for missing, items) involved
+  message: string;
+}
+
+export interface RankedLayout {
+  type: Exclude<LayoutType, "auto">;
+  positions: CellPosition[];
+  score: LayoutScore;
 }
 
 /**
@@ -36,17 +90,22 @@ export function calculateLayout(
   const { type, canvasWidth, canvasHeight, gap = 0 } = options;
 
   switch (type) {
-    case "grid":
-      return calculateGridLayout(items.length, canvasWidth, canvasHeight, options.columns, options.rows, gap);
+    case "auto":
+      return rankLayouts(items, options)[0]?.positions ?? [];
+    case "grid": {
+      const positions = calculateGridLayout(items.length, canvasWidth, canvasHeight, options.columns, options.rows, gap);
+      // Grid cells are all the same size, so pins only change which item fills which cell
+      return swapToPins(positions, items, canvasWidth, canvasHeight);
+    }
     case "masonry":
       return calculateMasonryLayout(items, canvasWidth, canvasHeight, gap, options.columns);
     case "treemap":
       return calculateTreemapLayout(items, canvasWidth, canvasHeight, gap);
     case "pack":
-      return calculatePackLayout(items, canvasWidth, canvasHeight, gap);
+      return calculatePackLayout(items, canvasWidth, canvasHeight, gap, options.aspectTolerance);
     case "dynamic":
     default:
-      return calculateDynamicLayout(items, canvasWidth, canvasHeight, gap);
+      return calculateDynamicLayout(items, canvasWidth, canvasHeight, gap, options.preserveOrder);
   }
 }
 
@@ -90,13 +149,18 @@ export function calculateGridLayout(
 
 /**
  * Dynamic row-based layout that preserves aspect ratios.
- * Groups items into rows with heights calculated to fill space optimally.
+ * Groups items into justified rows that fill the canvas width, with row
+ * heights as even as the aspect ratios allow. Items are grouped by aspect
+ * ratio unless preserveOrder keeps them in input order. Weights let an
+ * item's cell span several rows at its own aspect ratio, and pins move it
+ * to another row or place.
  */
 export function calculateDynamicLayout(
   items: LayoutItem[],
   canvasWidth: number,
   canvasHeight: number,
-  gap: number = 0
+  gap: number = 0,
+  preserveOrder: boolean = false
 ): CellPosition[] {
   if (items.length === 0) {
     return [];
@@ -126,107 +190,212 @@ export function calculateDynamicLayout(
     }];
   }
 
+  // A heavier item spans several rows, so in its row it is as wide as that many rows are tall
+  const spans = new Map(items.map(item => [item.index, getRowSpan(item)]));
+  const widened = items.map(item => ({ ...item, aspect: item.aspect * spans.get(item.index)! }));
+  const byIndex = new Map(items.map(item => [item.index, item]));
+
   // Calculate optimal row distribution using linear partitioning
-  const rows = partitionIntoRows(items, canvasWidth, canvasHeight, gap);
+  const rows = applyRowPins(partitionIntoRows(widened, canvasWidth, canvasHeight, gap, preserveOrder))
+    .map(row => row.map(item => byIndex.get(item.index)!));
+  const bands = groupIntoBands(rows, spans);
+
+  // Ideal line heights at full width; a spanning cell's band is solved so it keeps its aspect
+  const layouts = bands.map(band => getBandLayout(band, canvasWidth, gap));
+  const lineCount = bands.reduce((sum, band) => sum + band.lines.length, 0);
+  const totalIdealHeight = layouts.flatMap(layout => layout.heights).reduce((sum, height) => sum + height, 0);
+  const scaleFactor = (canvasHeight - gap * (lineCount + 1)) / totalIdealHeight;
 
   const positions: CellPosition[] = [];
-  let currentY = gap;
-  const availableHeight = canvasHeight - gap * (rows.length + 1);
-
-  // Calculate total ideal height
-  let totalIdealHeight = 0;
-  for (const row of rows) {
-    const totalGaps = gap * (row.length - 1);
-    const availableWidth = canvasWidth - gap * 2 - totalGaps;
-    const totalAspect = row.reduce((sum, item) => sum + item.aspect, 0);
-    totalIdealHeight += availableWidth / totalAspect;
-  }
+  let idealY = 0;
+  let line = 0;
+
+  bands.forEach((band, b) => {
+    const { heights, featureWidth } = layouts[b]!;
+    const bandTop = gap * (line + 1) + Math.round(idealY * scaleFactor);
+    // Lines beside a spanning cell fill the rest of the width
+    const lineLeft = band.feature && band.side === "left" ? gap * 2 + featureWidth : gap;
+    const lineWidth = canvasWidth - gap * 2 - (band.feature ? featureWidth + gap : 0);
+
+    band.lines.forEach((row, r) => {
+      // Edges are rounded from running totals so rounding never leaves a strip uncovered
+      const top = gap * (line + 1) + Math.round(idealY * scaleFactor);
+      idealY += heights[r]!;
+      const bottom = gap * (line + 1) + Math.round(idealY * scaleFactor);
+      line++;
+      const contentWidth = lineWidth - gap * (row.length - 1);
+      const totalAspect = sumAspects(row);
+      let aspectBefore = 0;
+
+      row.forEach((item, i) => {
+        const left = lineLeft + gap * i + Math.round((contentWidth * aspectBefore) / totalAspect);
+        aspectBefore += item.aspect;
+        const right = lineLeft + gap * i + Math.round((contentWidth * aspectBefore) / totalAspect);
 
-  // Scale factor to fit all rows
-  const scaleFactor = availableHeight / totalIdealHeight;
+        positions.push({
+          x: left,
+          y: top,
+          width: right - left,
+          height: bottom - top,
+          mediaIndex: item.index,
+        });
+      });
+    });
 
-  for (const row of rows) {
-    if (row.length === 0) continue;
+    if (band.feature) {
+      const bandBottom = gap * line + Math.round(idealY * scaleFactor);
+      positions.push({
+        x: band.side === "left" ? gap : canvasWidth - gap - featureWidth,
+        y: bandTop,
+        width: featureWidth,
+        height: bandBottom - bandTop,
+        mediaIndex: band.feature.index,
+      });
+    }
+  });
 
-    const totalGaps = gap * (row.length - 1);
-    const availableWidth = canvasWidth - gap * 2 - totalGaps;
-    const totalAspect = row.reduce((sum, item) => sum + item.aspect, 0);
-    const rowHeight = Math.floor((availableWidth / totalAspect) * scaleFactor);
+  return positions;
+}
 
-    let currentX = gap;
+/**
+ * Rows of a dynamic layout, with an optional cell spanning all of them at
+ * one side
+ */
+interface RowBand {
+  lines: LayoutItem[][];
+  feature?: LayoutItem;
+  side?: "left" | "right";
+}
 
-    for (let i = 0; i < row.length; i++) {
-      const item = row[i]!;
-      // Last item in row takes remaining space to avoid gaps
-      const isLast = i === row.length - 1;
-      const cellWidth = isLast
-        ? canvasWidth - gap - currentX
-        : Math.floor(rowHeight * item.aspect);
+/**
+ * Rows a weighted item spans: the fewest that give it at least its weight
+ * in area, since its width grows with its height
+ */
+function getRowSpan(item: LayoutItem): number {
+  return Math.max(1, Math.ceil(Math.sqrt(item.area ?? 1) - 1e-9));
+}
 
-      positions.push({
-        x: currentX,
-        y: currentY,
-        width: cellWidth,
-        height: rowHeight,
-        mediaIndex: item.index,
-      });
+/**
+ * Group rows into bands. A row with a spanning item starts a band of that
+ * many rows (moved up when there are too few rows below) with the item at
+ * the side of the row it was placed on. Spanning items in rows that are
+ * already part of a band get a regular cell.
+ */
+function groupIntoBands(rows: LayoutItem[][], spans: Map<number, number>): RowBand[] {
+  const bands: RowBand[] = [];
+  let next = 0;
+
+  for (let r = 0; r < rows.length; r++) {
+    const row = rows[r]!;
+    const feature = row.find(item => spans.get(item.index)! > 1);
+    if (r < next || !feature) continue;
+
+    const start = Math.max(next, Math.min(r, rows.length - spans.get(feature.index)!));
+    const end = Math.min(rows.length, start + spans.get(feature.index)!);
+    const lines = rows.slice(start, end).map(line => line.filter(item => item !== feature)).filter(line => line.length > 0);
+    // Nothing to span beside: keep the rows as they are
+    if (lines.length < 2) continue;
+
+    bands.push(...rows.slice(next, start).map(line => ({ lines: [line] })));
+    const place = row.indexOf(feature);
+    bands.push({ lines, feature, side: place * 2 <= row.length - 1 ? "left" : "right" });
+    next = end;
+  }
 
-      currentX += cellWidth + gap;
-    }
+  bands.push(...rows.slice(next).map(line => ({ lines: [line] })));
+  return bands;
+}
 
-    currentY += rowHeight + gap;
+/**
+ * Ideal heights of a band's lines and the width of its spanning cell. With
+ * a spanning cell of aspect a, the band height H is the sum of its line
+ * heights plus the gaps between them, and the lines share the width left
+ * beside the cell: H = sum((W - 3 gap - aH - gap (n - 1)) / aspects) + gaps
+ * is solved for H.
+ */
+function getBandLayout(band: RowBand, canvasWidth: number, gap: number): { heights: number[]; featureWidth: number } {
+  const lineHeights = (width: number) => band.lines.map(row => (width - gap * (row.length - 1)) / sumAspects(row));
+  if (!band.feature) {
+    return { heights: lineHeights(canvasWidth - gap * 2), featureWidth: 0 };
   }
 
-  return positions;
+  const inverse = band.lines.reduce((sum, row) => sum + 1 / sumAspects(row), 0);
+  const fixed = band.lines.reduce((sum, row) => sum + (canvasWidth - gap * (row.length + 2)) / sumAspects(row), 0);
+  const height = (fixed + gap * (band.lines.length - 1)) / (1 + band.feature.aspect * inverse);
+  const featureWidth = Math.round(band.feature.aspect * height);
+  return { heights: lineHeights(canvasWidth - gap * 3 - featureWidth), featureWidth };
+}
+
+function sumAspects(items: LayoutItem[]): number {
+  return items.reduce((sum, item) => sum + item.aspect, 0);
 }
 
 /**
- * Partition items into rows using greedy algorithm optimized for visual balance
+ * Partition items into rows with an optimal linear partition. For each row
+ * count, dynamic programming finds the split whose full-width row heights
+ * deviate least (sum of squares) from an even share of the canvas height.
+ * The row count with the smallest deviation wins. Items are grouped by
+ * aspect ratio first (wide with wide) unless their order is preserved.
  */
 function partitionIntoRows(
   items: LayoutItem[],
   canvasWidth: number,
   canvasHeight: number,
-  gap: number
+  gap: number,
+  preserveOrder: boolean
 ): LayoutItem[][] {
-  // Sort by aspect ratio for better grouping (wide with wide)
-  const sorted = [...items].sort((a, b) => b.aspect - a.aspect);
-
-  // Calculate optimal number of rows based on canvas aspect
-  const canvasAspect = canvasWidth / canvasHeight;
-  const avgAspect = items.reduce((sum, i) => sum + i.aspect, 0) / items.length;
-  const targetRows = Math.max(1, Math.round(Math.sqrt(items.length / (canvasAspect / avgAspect))));
-  const targetItemsPerRow = Math.ceil(items.length / targetRows);
-
-  const rows: LayoutItem[][] = [];
-  let currentRow: LayoutItem[] = [];
+  const ordered = preserveOrder ? items : [...items].sort((a, b) => b.aspect - a.aspect);
+  const n = ordered.length;
 
-  for (const item of sorted) {
-    currentRow.push(item);
+  const prefixAspect = [0];
+  for (const item of ordered) {
+    prefixAspect.push(prefixAspect[prefixAspect.length - 1]! + item.aspect);
+  }
+  // Height of items [start, end) as one row at full width
+  const rowHeight = (start: number, end: number) =>
+    (canvasWidth - gap * (end - start + 1)) / (prefixAspect[end]! - prefixAspect[start]!);
 
-    if (currentRow.length >= targetItemsPerRow) {
-      rows.push(currentRow);
-      currentRow = [];
+  // Row counts far beyond the canvas-shaped estimate can't win, so the search stops there
+  const canvasAspect = canvasWidth / canvasHeight;
+  const avgAspect = prefixAspect[n]! / n;
+  const estimatedRows = Math.max(1, Math.round(Math.sqrt(n / (canvasAspect / avgAspect))));
+  const maxRows = Math.min(n, estimatedRows * 2 + 1);
+
+  let best: { cost: number; breaks: number[] } | null = null;
+
+  for (let rowCount = 1; rowCount <= maxRows; rowCount++) {
+    const target = (canvasHeight - gap * (rowCount + 1)) / rowCount;
+    if (target <= 0) break;
+
+    // cost[r][end]: best deviation for items [0, end) in r rows; split[r][end]: where the last row starts
+    const cost: number[][] = [[0, ...Array<number>(n).fill(Infinity)]];
+    const split: number[][] = [[]];
+    for (let r = 1; r <= rowCount; r++) {
+      cost.push(Array<number>(n + 1).fill(Infinity));
+      split.push(Array<number>(n + 1).fill(0));
+      for (let end = r; end <= n - (rowCount - r); end++) {
+        for (let start = r - 1; start < end; start++) {
+          const candidate = cost[r - 1]![start]! + (rowHeight(start, end) - target) ** 2;
+          if (candidate < cost[r]![end]!) {
+            cost[r]![end] = candidate;
+            split[r]![end] = start;
+          }
+        }
+      }
     }
-  }
 
-  if (currentRow.length > 0) {
-    // Distribute orphaned items
-    if (currentRow.length === 1 && rows.length > 0) {
-      // Move to previous row if it would look better
-      const prevRow = rows[rows.length - 1]!;
-      const orphanItem = currentRow[0]!;
-      if (prevRow.length <= targetItemsPerRow + 1) {
-        prevRow.push(orphanItem);
-      } else {
-        rows.push(currentRow);
+    const total = cost[rowCount]![n]!;
+    if (!best || total < best.cost) {
+      const breaks = [n];
+      for (let r = rowCount; r > 0; r--) {
+        breaks.unshift(split[r]![breaks[0]!]!);
       }
-    } else {
-      rows.push(currentRow);
+      best = { cost: total, breaks };
     }
   }
 
-  return rows;
+  const breaks = best?.breaks ?? [0, n];
+  return breaks.slice(1).map((end, i) => ordered.slice(breaks[i]!, end));
 }
 
 /**
@@ -246,8 +415,9 @@ export function calculateMasonryLayout(
   const cols = columnCount || Math.max(2, Math.ceil(Math.sqrt(items.length)));
   const colWidth = Math.floor((canvasWidth - gap * (cols + 1)) / cols);
 
-  // Track height of each column
+  // Track height and cells of each column
   const colHeights: number[] = new Array(cols).fill(gap);
+  const colCells: CellPosition[][] = Array.from({ length: cols }, () => []);
   const positions: CellPosition[] = [];
 
   for (const item of items) {
@@ -266,24 +436,35 @@ export function calculateMasonryLayout(
     const y = colHeights[targetCol] ?? gap;
     const height = Math.floor(colWidth / item.aspect);
 
-    positions.push({
+    const position = {
       x,
       y,
       width: colWidth,
       height,
       mediaIndex: item.index,
-    });
+    };
+    positions.push(position);
+    colCells[targetCol]!.push(position);
 
     colHeights[targetCol] = (colHeights[targetCol] ?? gap) + height + gap;
   }
 
-  // Scale to fit canvas height if needed
+  // Scale to fit canvas height if needed. Only the cells shrink, so the gaps between them stay intact.
   const maxHeight = Math.max(...colHeights);
   if (maxHeight > canvasHeight) {
-    const scale = (canvasHeight - gap) / maxHeight;
-    for (const pos of positions) {
-      pos.y = Math.floor(pos.y * scale);
-      pos.height = Math.floor(pos.height * scale);
+    const filled = colCells.filter(cells => cells.length > 0);
+    const scale = Math.min(
+      ...filled.map(cells => (canvasHeight - gap * (cells.length + 1)) / cells.reduce((sum, pos) => sum + pos.height, 0))
+    );
+    for (const cells of filled) {
+      // Round edges from the running total so rounding errors don't add up down the column
+      let top = 0;
+      cells.forEach((pos, i) => {
+        const start = gap * (i + 1) + Math.round(top * scale);
+        top += pos.height;
+        pos.y = start;
+        pos.height = gap * (i + 1) + Math.round(top * scale) - start;
+      });
     }
   }
 
@@ -302,11 +483,12 @@ export function calculateTreemapLayout(
 ): CellPosition[] {
   if (items.length === 0) return [];
 
-  // Assign area weights based on aspect ratio (wider items get more space)
-  const totalArea = (canvasWidth - gap * 2) * (canvasHeight - gap * 2);
+  // Assign area weights based on aspect ratio (wider items get more space), scaled by each item's weight.
+  // Cells are tiled half a gap in from the canvas edges, then each is inset by half a gap.
+  const totalArea = (canvasWidth - gap) * (canvasHeight - gap);
   const weightedItems = items.map((item, i) => ({
     ...item,
-    area: item.area || Math.max(1, item.aspect),
+    area: (item.area ?? 1) * Math.max(1, item.aspect),
   }));
 
   // Normalize areas
@@ -315,18 +497,56 @@ export function calculateTreemapLayout(
     item.area = (item.area! / totalWeight) * totalArea;
   }
 
-  // Sort by area descending for better layout
-  weightedItems.sort((a, b) => b.area! - a.area!);
+  // Sort by area descending for better layout; pinned items go first so they land in a corner
+  weightedItems.sort((a, b) => Number(!!b.pin) - Number(!!a.pin) || b.area! - a.area!);
 
   // Squarified treemap algorithm
   const rect = {
-    x: gap,
-    y: gap,
-    width: canvasWidth - gap * 2,
-    height: canvasHeight - gap * 2,
+    x: gap / 2,
+    y: gap / 2,
+    width: canvasWidth - gap,
+    height: canvasHeight - gap,
   };
 
-  return squarify(weightedItems, rect, gap);
+  return mirrorToPins(squarify(weightedItems, rect, gap), items, canvasWidth, canvasHeight);
+}
+
+/**
+ * Mirror a layout horizontally and/or vertically so its pinned cells end
+ * up as close as possible to their pins
+ */
+function mirrorToPins(
+  positions: CellPosition[],
+  items: LayoutItem[],
+  canvasWidth: number,
+  canvasHeight: number
+): CellPosition[] {
+  const pins = new Map(items.flatMap(item => (item.pin ? [[item.index, getPinPoint(item.pin, items.length)] as const] : [])));
+  if (pins.size === 0) return positions;
+
+  let best = positions;
+  let bestDistance = Infinity;
+  for (const flipX of [false, true]) {
+    for (const flipY of [false, true]) {
+      const mirrored = positions.map(pos => ({
+        ...pos,
+        x: flipX ? canvasWidth - pos.x - pos.width : pos.x,
+        y: flipY ? canvasHeight - pos.y - pos.height : pos.y,
+      }));
+      const distance = mirrored.reduce((sum, pos) => {
+        const pin = pins.get(pos.mediaIndex);
+        if (!pin) return sum;
+        const dx = (pos.x + pos.width / 2) / canvasWidth - pin.x;
+        const dy = (pos.y + pos.height / 2) / canvasHeight - pin.y;
+        return sum + Math.hypot(dx, dy);
+      }, 0);
+      if (distance < bestDistance) {
+        best = mirrored;
+        bestDistance = distance;
+      }
+    }
+  }
+  return best;
 }
 
 interface Rect {
@@ -345,15 +565,19 @@ function squarify(
   gap: number
 ): CellPosition[] {
   if (items.length === 0) return [];
-  if (items.length === 1) {
-    return [{
-      x: Math.floor(rect.x),
-      y: Math.floor(rect.y),
-      width: Math.floor(rect.width),
-      height: Math.floor(rect.height),
-      mediaIndex: items[0]!.index,
-    }];
-  }
+
+  // Inset a tile by half a gap on every side. Edges are rounded, so tiles that touch end up exactly a gap apart.
+  const inset = (x: number, y: number, width: number, height: number, mediaIndex: number): CellPosition => {
+    const left = Math.round(x + gap / 2);
+    const top = Math.round(y + gap / 2);
+    return {
+      x: left,
+      y: top,
+      width: Math.round(x + width - gap / 2) - left,
+      height: Math.round(y + height - gap / 2) - top,
+      mediaIndex,
+    };
+  };
 
   const positions: CellPosition[] = [];
   let remaining = [...items];
@@ -375,21 +599,9 @@ function squarify(
       const itemSize = item.area! / rowSize;
 
       if (isWide) {
-        positions.push({
-          x: Math.floor(currentRect.x),
-          y: Math.floor(currentRect.y + offset),
-          width: Math.floor(rowSize - gap / 2),
-          height: Math.floor(itemSize - gap / 2),
-          mediaIndex: item.index,
-        });
+        positions.push(inset(currentRect.x, currentRect.y + offset, rowSize, itemSize, item.index));
       } else {
-        positions.push({
-          x: Math.floor(currentRect.x + offset),
-          y: Math.floor(currentRect.y),
-          width: Math.floor(itemSize - gap / 2),
-          height: Math.floor(rowSize - gap / 2),
-          mediaIndex: item.index,
-        });
+        positions.push(inset(currentRect.x + offset, currentRect.y, itemSize, rowSize, item.index));
       }
       offset += itemSize;
     }
@@ -464,105 +676,487 @@ function worstAspectRatio(row: LayoutItem[], side: number): number {
 }
 
 /**
- * Pack layout - bin packing algorithm that places items to minimize wasted space.
- * Good for mixed aspect ratios with varying sizes.
+ * Bin-packing layout for mixed sizes (MaxRects).
+ * Finds the largest common scale at which every item fits, placing each one
+ * in the free rectangle that leaves the shortest leftover side. Pinned
+ * items are placed at their pin first. Cells then grow into the space
+ * around them, so each cell's aspect ratio may stray from its media's by up
+ * to the tolerance.
  */
 export function calculatePackLayout(
   items: LayoutItem[],
   canvasWidth: number,
   canvasHeight: number,
-  gap: number = 0
+  gap: number = 0,
+  aspectTolerance: number = DEFAULT_ASPECT_TOLERANCE
 ): CellPosition[] {
   if (items.length === 0) return [];
 
-  // Calculate ideal item size based on count
-  const avgArea = (canvasWidth * canvasHeight) / items.length;
-  const targetHeight = Math.sqrt(avgArea);
+  // Each item is sized from a relative area (weight) and its aspect ratio
+  const weights = items.map(item => item.area || 1);
+  const totalWeight = weights.reduce((sum, weight) => sum + weight, 0);
+  const usableArea = (canvasWidth - gap * 2) * (canvasHeight - gap * 2);
+  const sizeAt = (scale: number) =>
+    items.map((item, i) => ({
+      width: Math.max(1, Math.floor(scale * Math.sqrt(weights[i]! * item.aspect))),
+      height: Math.max(1, Math.floor(scale * Math.sqrt(weights[i]! / item.aspect))),
+    }));
+
+  const pins = items.map(item => (item.pin ? getPinPoint(item.pin, items.length) : undefined));
+
+  // Binary search for the largest scale that still packs every item
+  let low = 0;
+  let high = Math.sqrt(usableArea / totalWeight);
+  let packed = packMaxRects(sizeAt(low), pins, canvasWidth, canvasHeight, gap);
+  if (!packed) {
+    // Not even 1px cells fit between the gaps; pins still pick their grid cell
+    const grid = calculateGridLayout(items.length, canvasWidth, canvasHeight, undefined, undefined, gap);
+    return swapToPins(grid, items, canvasWidth, canvasHeight);
+  }
+  for (let i = 0; i < 20; i++) {
+    const scale = (low + high) / 2;
+    const attempt = packMaxRects(sizeAt(scale), pins, canvasWidth, canvasHeight, gap);
+    if (attempt) {
+      low = scale;
+      packed = attempt;
+    } else {
+      high = scale;
+    }
+  }
 
-  // Calculate dimensions for each item
-  const itemDims = items.map(item => ({
-    ...item,
-    width: Math.floor(targetHeight * item.aspect),
-    height: Math.floor(targetHeight),
-  }));
+  // Center the packing (unless cells are pinned), then let cells grow into the leftover space
+  const right = Math.max(...packed.map(rect => rect.x + rect.width));
+  const bottom = Math.max(...packed.map(rect => rect.y + rect.height));
+  const centered = pins.every(pin => !pin);
+  const offsetX = centered ? Math.floor((canvasWidth - gap - right) / 2) : 0;
+  const offsetY = centered ? Math.floor((canvasHeight - gap - bottom) / 2) : 0;
+  const rects = packed.map(rect => ({ ...rect, x: rect.x + offsetX, y: rect.y + offsetY }));
+  growRects(rects, items.map(item => item.aspect), canvasWidth, canvasHeight, gap, aspectTolerance);
 
-  // Sort by height descending for shelf algorithm
-  itemDims.sort((a, b) => b.height - a.height);
+  return rects.map((rect, i) => ({ ...rect, mediaIndex: items[i]!.index }));
+}
 
-  // Simple shelf packing
-  const shelves: { y: number; height: number; width: number }[] = [];
-  const positions: CellPosition[] = [];
+/**
+ * Place rectangles on the canvas with MaxRects: pinned ones centered on
+ * their pin (within the canvas), then the rest largest first. Returns the
+ * placements in input order, or null when they don't all fit.
+ */
+function packMaxRects(
+  sizes: { width: number; height: number }[],
+  pins: ({ x: number; y: number } | undefined)[],
+  canvasWidth: number,
+  canvasHeight: number,
+  gap: number
+): Rect[] | null {
+  // Every cell reserves a gap to its right and below; the canvas border supplies the rest
+  let free: Rect[] = [{ x: gap, y: gap, width: canvasWidth - gap, height: canvasHeight - gap }];
+  const placed: Rect[] = [];
+  const unplaced: number[] = [];
+
+  pins.forEach((pin, i) => {
+    if (!pin) return;
+    const { width, height } = sizes[i]!;
+    const x = Math.max(gap, Math.min(canvasWidth - gap - width, Math.round(pin.x * canvasWidth - width / 2)));
+    const y = Math.max(gap, Math.min(canvasHeight - gap - height, Math.round(pin.y * canvasHeight - height / 2)));
+    const used = { x, y, width: width + gap, height: height + gap };
+    if (free.some(rect => containsRect(rect, used))) {
+      placed[i] = { x, y, width, height };
+      free = splitFreeRects(free, used);
+    } else {
+      // Another pinned cell is already there
+      unplaced.push(i);
+    }
+  });
+
+  const order = sizes
+    .map((size, i) => i)
+    .filter(i => !pins[i] || unplaced.includes(i))
+    .sort((a, b) => sizes[b]!.width * sizes[b]!.height - sizes[a]!.width * sizes[a]!.height);
+
+  for (const i of order) {
+    const width = sizes[i]!.width + gap;
+    const height = sizes[i]!.height + gap;
+
+    // Best short side fit: the free rectangle that leaves the least room along its tighter side
+    let best: Rect | null = null;
+    let bestShort = Infinity;
+    let bestLong = Infinity;
+    for (const rect of free) {
+      if (width > rect.width || height > rect.height) continue;
+      const short = Math.min(rect.width - width, rect.height - height);
+      const long = Math.max(rect.width - width, rect.height - height);
+      if (short < bestShort || (short === bestShort && long < bestLong)) {
+        best = rect;
+        bestShort = short;
+        bestLong = long;
+      }
+    }
+    if (!best) return null;
 
-  for (const item of itemDims) {
-    let placed = false;
+    const used = { x: best.x, y: best.y, width, height };
+    placed[i] = { x: used.x, y: used.y, width: sizes[i]!.width, height: sizes[i]!.height };
+    free = splitFreeRects(free, used);
+  }
 
-    // Try to fit on existing shelf
-    for (const shelf of shelves) {
-      if (shelf.width + item.width + gap <= canvasWidth && item.height <= shelf.height) {
-        positions.push({
-          x: shelf.width + gap,
-          y: shelf.y,
-          width: item.width,
-          height: item.height,
-          mediaIndex: item.index,
-        });
-        shelf.width += item.width + gap;
-        placed = true;
-        break;
+  return placed;
+}
+
+/**
+ * Cut a used area out of the free rectangles. Free rectangles may overlap;
+ * ones contained in another are dropped.
+ */
+function splitFreeRects(free: Rect[], used: Rect): Rect[] {
+  const next: Rect[] = [];
+  for (const rect of free) {
+    if (!rectsOverlap(rect, used)) {
+      next.push(rect);
+      continue;
+    }
+    if (used.x > rect.x) next.push({ ...rect, width: used.x - rect.x });
+    if (used.x + used.width < rect.x + rect.width) {
+      next.push({ ...rect, x: used.x + used.width, width: rect.x + rect.width - used.x - used.width });
+    }
+    if (used.y > rect.y) next.push({ ...rect, height: used.y - rect.y });
+    if (used.y + used.height < rect.y + rect.height) {
+      next.push({ ...rect, y: used.y + used.height, height: rect.y + rect.height - used.y - used.height });
+    }
+  }
+
+  return next.filter((rect, i) =>
+    !next.some((other, j) => j !== i && containsRect(other, rect) && (!containsRect(rect, other) || j < i))
+  );
+}
+
+/**
+ * Grow cells into free space next to them, one side at a time, while their
+ * aspect ratio stays within the tolerance of the media's
+ */
+function growRects(
+  rects: Rect[],
+  aspects: number[],
+  canvasWidth: number,
+  canvasHeight: number,
+  gap: number,
+  tolerance: number
+): void {
+  for (let pass = 0; pass < 8; pass++) {
+    let grown = false;
+
+    rects.forEach((rect, i) => {
+      const others = rects.filter((_, j) => j !== i);
+      const maxWidth = Math.floor(rect.height * aspects[i]! * (1 + tolerance));
+      const maxHeight = Math.floor((rect.width * (1 + tolerance)) / aspects[i]!);
+      const overlapsRows = (other: Rect) => other.y < rect.y + rect.height + gap && other.y + other.height + gap > rect.y;
+      const overlapsColumns = (other: Rect) => other.x < rect.x + rect.width + gap && other.x + other.width + gap > rect.x;
+
+      let room = Math.min(maxWidth - rect.width, canvasWidth - gap - rect.x - rect.width);
+      for (const other of others.filter(o => overlapsRows(o) && o.x >= rect.x + rect.width)) {
+        room = Math.min(room, other.x - gap - rect.x - rect.width);
+      }
+      if (room > 0) {
+        rect.width += room;
+        grown = true;
+      }
+
+      room = Math.min(maxWidth - rect.width, rect.x - gap);
+      for (const other of others.filter(o => overlapsRows(o) && o.x + o.width <= rect.x)) {
+        room = Math.min(room, rect.x - gap - other.x - other.width);
+      }
+      if (room > 0) {
+        rect.x -= room;
+        rect.width += room;
+        grown = true;
+      }
+
+      room = Math.min(maxHeight - rect.height, canvasHeight - gap - rect.y - rect.height);
+      for (const other of others.filter(o => overlapsColumns(o) && o.y >= rect.y + rect.height)) {
+        room = Math.min(room, other.y - gap - rect.y - rect.height);
+      }
+      if (room > 0) {
+        rect.height += room;
+        grown = true;
+      }
+
+      room = Math.min(maxHeight - rect.height, rect.y - gap);
+      for (const other of others.filter(o => overlapsColumns(o) && o.y + o.height <= rect.y)) {
+        room = Math.min(room, rect.y - gap - other.y - other.height);
+      }
+      if (room > 0) {
+        rect.y -= room;
+        rect.height += room;
+        grown = true;
       }
+    });
+
+    if (!grown) break;
+  }
+}
+
+function rectsOverlap(a: Rect, b: Rect): boolean {
+  return a.x < b.x + b.width && a.x + a.width > b.x && a.y < b.y + b.height && a.y + a.height > b.y;
+}
+
+function containsRect(outer: Rect, inner: Rect): boolean {
+  return (
+    inner.x >= outer.x &&
+    inner.y >= outer.y &&
+    inner.x + inner.width <= outer.x + outer.width &&
+    inner.y + inner.height <= outer.y + outer.height
+  );
+}
+
+/**
+ * Point on the canvas (0-1) a pin asks for. Explicit cells are read in the
+ * automatic grid for this many items.
+ */
+function getPinPoint(pin: CellPin, count: number): { x: number; y: number } {
+  if (typeof pin === "string") return PIN_ANCHORS[pin];
+  const columns = Math.ceil(Math.sqrt(count));
+  const rows = Math.ceil(count / columns);
+  return {
+    x: (Math.min(pin.column, columns - 1) + 0.5) / columns,
+    y: (Math.min(pin.row, rows - 1) + 0.5) / rows,
+  };
+}
+
+/**
+ * Swap pinned items into the grid cell their pin asks for: the cell nearest
+ * an anchor, or the given row and column (clamped to the grid). When two
+ * pins want the same cell, the item earlier in the media list keeps it.
+ */
+function swapToPins(
+  positions: CellPosition[],
+  items: LayoutItem[],
+  canvasWidth: number,
+  canvasHeight: number
+): CellPosition[] {
+  const result = positions.map(pos => ({ ...pos }));
+  const rowTops = [...new Set(positions.map(pos => pos.y))].sort((a, b) => a - b);
+  const settled = new Set<number>();
+
+  for (const item of items) {
+    const pin = item.pin;
+    if (!pin) continue;
+
+    let target: CellPosition;
+    if (typeof pin === "string") {
+      const point = PIN_ANCHORS[pin];
+      const distance = (pos: CellPosition) =>
+        Math.hypot(pos.x + pos.width / 2 - point.x * canvasWidth, pos.y + pos.height / 2 - point.y * canvasHeight);
+      target = result.reduce((best, pos) => (distance(pos) < distance(best) ? pos : best));
+    } else {
+      const top = rowTops[Math.min(pin.row, rowTops.length - 1)];
+      const row = result.filter(pos => pos.y === top).sort((a, b) => a.x - b.x);
+      target = row[Math.min(pin.column, row.length - 1)]!;
     }
 
-    // Create new shelf
-    if (!placed) {
-      const lastShelf = shelves[shelves.length - 1];
-      const shelfY = shelves.length === 0
-        ? gap
-        : lastShelf!.y + lastShelf!.height + gap;
-
-      shelves.push({
-        y: shelfY,
-        height: item.height,
-        width: item.width + gap,
-      });
+    if (settled.has(target.mediaIndex)) continue;
+    const current = result.find(pos => pos.mediaIndex === item.index)!;
+    current.mediaIndex = target.mediaIndex;
+    target.mediaIndex = item.index;
+    settled.add(item.index);
+  }
 
-      positions.push({
-        x: gap,
-        y: shelfY,
-        width: item.width,
-        height: item.height,
-        mediaIndex: item.index,
+  return result;
+}
+
+/**
+ * Move pinned items to the row and place in the row that their pin asks
+ * for, swapping with the item there. Anchors pick the first, middle or last
+ * row and place; explicit cells are clamped to the rows there are. Rows
+ * span the canvas width, so places map straight to horizontal position. When two
+ * pins want the same place, the item earlier in the media list keeps it.
+ */
+function applyRowPins(rows: LayoutItem[][]): LayoutItem[][] {
+  const result = rows.map(row => [...row]);
+  const pinned = rows.flat().filter(item => item.pin).sort((a, b) => a.index - b.index);
+  const settled = new Set<LayoutItem>();
+
+  for (const item of pinned) {
+    const pin = item.pin!;
+    const rowIndex = typeof pin === "string"
+      ? Math.round(PIN_ANCHORS[pin].y * (result.length - 1))
+      : Math.min(pin.row, result.length - 1);
+    const row = result[rowIndex]!;
+    const place = typeof pin === "string"
+      ? Math.round(PIN_ANCHORS[pin].x * (row.length - 1))
+      : Math.min(pin.column, row.length - 1);
+
+    const target = row[place]!;
+    if (settled.has(target)) continue;
+    const fromRow = result.find(r => r.includes(item))!;
+    fromRow[fromRow.indexOf(item)] = target;
+    row[place] = item;
+    settled.add(item);
+  }
+
+  return result;
+}
+
+/**
+ * Fraction of the canvas covered by cells (0-1)
+ */
+export function getLayoutCoverage(positions: CellPosition[], canvasWidth: number, canvasHeight: number): number {
+  const covered = positions.reduce((sum, pos) => sum + pos.width * pos.height, 0);
+  return covered / (canvasWidth * canvasHeight);
+}
+
+/**
+ * Check a layout's invariants: every item has exactly one cell, cells have a
+ * size, stay on the canvas and don't overlap, and cells are at least the gap
+ * apart from each other and the canvas edges. Returns every violation found
+ * (empty when valid).
+ */
+export function validateLayout(
+  positions: CellPosition[],
+  itemCount: number,
+  canvasWidth: number,
+  canvasHeight: number,
+  gap: number = 0
+): LayoutViolation[] {
+  const violations: LayoutViolation[] = [];
+  const describe = (pos: CellPosition) => `Cell #${pos.mediaIndex} (${pos.width}x${pos.height} at ${pos.x},${pos.y})`;
+
+  const cellCounts = new Map<number, number>();
+  for (const pos of positions) {
+    cellCounts.set(pos.mediaIndex, (cellCounts.get(pos.mediaIndex) ?? 0) + 1);
+  }
+  for (let index = 0; index < itemCount; index++) {
+    if (!cellCounts.has(index)) {
+      violations.push({ type: "missing", mediaIndices: [index], message: `Item #${index} has no cell` });
+    }
+  }
+  for (const [index, count] of cellCounts) {
+    if (!Number.isInteger(index) || index < 0 || index >= itemCount) {
+      violations.push({ type: "unknown", mediaIndices: [index], message: `Cell #${index} has no item (expected 0-${itemCount - 1})` });
+    } else if (count > 1) {
+      violations.push({ type: "duplicate", mediaIndices: [index], message: `Item #${index} has ${count} cells` });
+    }
+  }
+
+  for (const pos of positions) {
+    if (!(pos.width > 0) || !(pos.height > 0)) {
+      violations.push({ type: "zero-size", mediaIndices: [pos.mediaIndex], message: `${describe(pos)} has no area` });
+    }
+    const border = Math.min(pos.x, pos.y, canvasWidth - pos.x - pos.width, canvasHeight - pos.y - pos.height);
+    if (border < 0) {
+      violations.push({
+        type: "out-of-bounds",
+        mediaIndices: [pos.mediaIndex],
+        message: `${describe(pos)} extends past the ${canvasWidth}x${canvasHeight} canvas`,
+      });
+    } else if (border < gap) {
+      violations.push({
+        type: "gap",
+        mediaIndices: [pos.mediaIndex],
+        message: `${describe(pos)} is ${border}px from the canvas edge (gap is ${gap}px)`,
       });
     }
   }
 
-  // Scale to fit canvas
-  const maxY = Math.max(...positions.map(p => p.y + p.height));
-  const maxX = Math.max(...positions.map(p => p.x + p.width));
+  positions.forEach((a, i) => {
+    for (const b of positions.slice(i + 1)) {
+      const mediaIndices = [a.mediaIndex, b.mediaIndex];
+      if (rectsOverlap(a, b)) {
+        violations.push({ type: "overlap", mediaIndices, message: `${describe(a)} overlaps ${describe(b)}` });
+        continue;
+      }
+      // Cells closer than the gap on both axes are neighbours without a full gap between them
+      const dx = Math.max(b.x - (a.x + a.width), a.x - (b.x + b.width));
+      const dy = Math.max(b.y - (a.y + a.height), a.y - (b.y + b.height));
+      if (dx < gap && dy < gap) {
+        violations.push({
+          type: "gap",
+          mediaIndices,
+          message: `${describe(a)} and ${describe(b)} are ${Math.max(dx, dy)}px apart (gap is ${gap}px)`,
+        });
+      }
+    }
+  });
 
-  const scaleX = (canvasWidth - gap * 2) / maxX;
-  const scaleY = (canvasHeight - gap * 2) / maxY;
-  const scale = Math.min(scaleX, scaleY);
+  return violations;
+}
+
+/**
+ * Score a layout. The combined score is the share of the canvas showing
+ * media that `cover` doesn't crop, minus a small penalty for uneven cell
+ * sizes and a full point for every overlapping pair of cells.
+ */
+export function scoreLayout(
+  positions: CellPosition[],
+  items: LayoutItem[],
+  canvas: { width: number; height: number }
+): LayoutScore {
+  const coverage = getLayoutCoverage(positions, canvas.width, canvas.height);
+  if (positions.length === 0) {
+    return { coverage, averageDistortion: 0, worstDistortion: 0, cropLoss: 0, sizeVariance: 0, overlaps: 0, score: 0 };
+  }
 
-  const offsetX = Math.floor((canvasWidth - maxX * scale) / 2);
-  const offsetY = Math.floor((canvasHeight - maxY * scale) / 2);
+  const itemsByIndex = new Map(items.map(item => [item.index, item]));
+  const totalArea = positions.reduce((sum, pos) => sum + pos.width * pos.height, 0);
+  let totalDistortion = 0;
+  let worstDistortion = 0;
+  let croppedArea = 0;
 
   for (const pos of positions) {
-    pos.x = Math.floor(pos.x * scale + offsetX);
-    pos.y = Math.floor(pos.y * scale + offsetY);
-    pos.width = Math.floor(pos.width * scale);
-    pos.height = Math.floor(pos.height * scale);
+    const aspect = itemsByIndex.get(pos.mediaIndex)?.aspect ?? pos.width / pos.height;
+    const ratio = pos.width / pos.height / aspect;
+    const stretch = Math.max(ratio, 1 / ratio);
+    totalDistortion += stretch - 1;
+    worstDistortion = Math.max(worstDistortion, stretch - 1);
+    croppedArea += pos.width * pos.height * (1 - 1 / stretch);
   }
 
-  return positions;
+  // Cell areas relative to each item's weight, so a featured item doesn't count as uneven
+  const sizes = positions.map(pos => (pos.width * pos.height) / (itemsByIndex.get(pos.mediaIndex)?.area ?? 1));
+  const mean = sizes.reduce((sum, size) => sum + size, 0) / sizes.length;
+  const variance = sizes.reduce((sum, size) => sum + (size - mean) ** 2, 0) / sizes.length;
+  const sizeVariance = mean > 0 ? Math.sqrt(variance) / mean : 0;
+
+  let overlaps = 0;
+  positions.forEach((a, i) => {
+    for (const b of positions.slice(i + 1)) {
+      if (rectsOverlap(a, b)) overlaps++;
+    }
+  });
+
+  const cropLoss = totalArea > 0 ? croppedArea / totalArea : 0;
+  return {
+    coverage,
+    averageDistortion: totalDistortion / positions.length,
+    worstDistortion,
+    cropLoss,
+    sizeVariance,
+    overlaps,
+    score: coverage * (1 - cropLoss) - 0.1 * sizeVariance - overlaps,
+  };
 }
 
 /**
- * Get media info as LayoutItem format
+ * Run every layout algorithm on the items and score the results, best first
+ */
+export function rankLayouts(items: LayoutItem[], options: LayoutOptions): RankedLayout[] {
+  const canvas = { width: options.canvasWidth, height: options.canvasHeight };
+  return SCORED_LAYOUTS.map(type => {
+    const positions = calculateLayout(items, { ...options, type });
+    return { type, positions, score: scoreLayout(positions, items, canvas) };
+  }).sort((a, b) => b.score.score - a.score.score);
+}
+
+/**
+ * Get media info as LayoutItem format.
+ * Uses display dimensions so rotated and anamorphic media get their real shape.
  */
 export function mediaToLayoutItem(info: MediaInfo | undefined, index: number): LayoutItem {
+  if (!info) {
+    return { index, aspect: 16 / 9 };
+  }
+
+  const width = info.displayWidth || info.width;
+  const height = info.displayHeight || info.height;
   return {
     index,
-    aspect: info ? info.width / info.height : 16 / 9,
+    aspect: width / height,
   };
 }
 
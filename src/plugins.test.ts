@@ -0,0 +1,97 @@
+import { describe, test, expect, beforeAll, afterAll } from "bun:test";
+import { mkdtempSync, rmSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import path from "path";
+import { createPluginShader, loadShaderPlugins } from "./plugins";
+import { buildShaderChain, getShader, normalizeShaderChain } from "./shaders";
+
+describe("plugins", () => {
+  describe("createPluginShader", () => {
+    test("fills in parameters and frame size", () => {
+      const shader = createPluginShader({
+        name: "frame-test",
+        params: { amount: { default: 1, min: 0, max: 3 } },
+        filter: "unsharp=5:5:{amount},scale={width}:{height}",
+      });
+      const filter = shader.build({ amount: 2 }, { width: 640, height: 360, label: name => `[${name}]` });
+      expect(filter).toBe("unsharp=5:5:2,scale=640:360");
+    });
+
+    test("renames bracketed labels per chain step", () => {
+      const shader = createPluginShader({
+        name: "label-test",
+        filter: "split[a][b];[b]gblur=sigma=5[blur];[a][blur]blend=all_mode=lighten",
+      });
+      const filter = shader.build({}, { width: 640, height: 360, label: name => `[sh2_${name}]` });
+      expect(filter).toBe("split[sh2_a][sh2_b];[sh2_b]gblur=sigma=5[sh2_blur];[sh2_a][sh2_blur]blend=all_mode=lighten");
+    });
+
+    test("accepts a build function instead of a template", () => {
+      const shader = createPluginShader({ name: "build-test", build: () => "negate" });
+      expect(shader.build({}, { width: 1, height: 1, label: name => name })).toBe("negate");
+      expect(shader.description).toBe("Shader plugin");
+    });
+
+    test("rejects invalid declarations", () => {
+      expect(() => createPluginShader("sepia")).toThrow("must export an object");
+      expect(() => createPluginShader({ name: "Bad Name", filter: "negate" })).toThrow("lowercase");
+      expect(() => createPluginShader({ name: "no-filter" })).toThrow("needs a 'filter' template");
+      expect(() => createPluginShader({ name: "typo", filter: "eq=gamma={gama}" })).toThrow("unknown placeholder '{gama}'");
+      expect(() =>
+        createPluginShader({ name: "range", params: { x: { default: 5, min: 0, max: 1 } }, filter: "eq=gamma={x}" })
+      ).toThrow("outside 0..1");
+      expect(() =>
+        createPluginShader({ name: "reserved", params: { width: { default: 1, min: 0, max: 1 } }, filter: "negate" })
+      ).toThrow("reserved");
+    });
+  });
+
+  describe("loadShaderPlugins", () => {
+    let dir: string;
+
+    beforeAll(() => {
+      dir = mkdtempSync(path.join(tmpdir(), "shader-plugins-"));
+      writeFileSync(
+        path.join(dir, "sharpen-test.json"),
+        JSON.stringify({
+          name: "sharpen-test",
+          description: "Unsharp mask",
+          params: { amount: { default: 1, min: 0, max: 3 } },
+          filter: "unsharp=5:5:{amount}",
+        })
+      );
+      writeFileSync(
+        path.join(dir, "glow-test.ts"),
+        `export default { name: "glow-test", filter: "split[a][b];[b]gblur=sigma=8[blur];[a][blur]blend=all_mode=lighten" };\n`
+      );
+    });
+
+    afterAll(() => {
+      rmSync(dir, { recursive: true, force: true });
+    });
+
+    test("registers JSON and TS plugins", async () => {
+      const shaders = await loadShaderPlugins(dir);
+      expect(shaders.map(shader => shader.name)).toEqual(["glow-test", "sharpen-test"]);
+      expect(getShader("sharpen-test")?.description).toBe("Unsharp mask");
+    });
+
+    test("registered plugins are validated and chained like built-ins", () => {
+      expect(() => normalizeShaderChain("sharpen-test:amount=5")).toThrow("between 0 and 3");
+
+      const specs = normalizeShaderChain("glow-test,sharpen-test:amount=2,glow-test");
+      const graph = buildShaderChain(specs, 640, 360, "[tiled]", "[out]").join(";");
+      expect(graph).toContain("[sh0_blur]");
+      expect(graph).toContain("[sh2_blur]");
+      expect(graph).toContain("[sh0]unsharp=5:5:2[sh1]");
+    });
+
+    test("rejects a plugin that is already registered", async () => {
+      await expect(loadShaderPlugins(dir)).rejects.toThrow("already registered");
+    });
+
+    test("rejects a missing directory", async () => {
+      await expect(loadShaderPlugins(path.join(dir, "missing"))).rejects.toThrow("Shader directory not found");
+    });
+  });
+});
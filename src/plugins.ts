@@ -0,0 +1,142 @@
+/**
+ * Shader plugins
+ *
+ * A plugin is a JSON file or a TS/JS module that declares a shader name, its
+ * parameters and an ffmpeg filter template:
+ *
+ *   {
+ *     "name": "sharpen",
+ *     "description": "Unsharp mask",
+ *     "params": { "amount": { "default": 1, "min": 0, "max": 3 } },
+ *     "filter": "unsharp=5:5:{amount}"
+ *   }
+ *
+ * Templates can use {param}, {width} and {height}. Bracketed labels such as
+ * [blur] are renamed per chain step so a plugin can be chained more than once.
+ * Modules export the same object as their default export, or a full
+ * ShaderDefinition with a build() function instead of a template.
+ */
+
+import { existsSync } from "fs";
+import { homedir } from "os";
+import path from "path";
+import { registerShader, type ShaderDefinition, type ShaderParam } from "./shaders";
+
+export const DEFAULT_SHADER_DIR = path.join(homedir(), ".config", "video-collage", "shaders");
+
+const RESERVED_PLACEHOLDERS = ["width", "height"];
+
+/**
+ * Load every plugin in a directory and add it to the shader registry
+ */
+export async function loadShaderPlugins(dir: string): Promise<ShaderDefinition[]> {
+  if (!existsSync(dir)) {
+    throw new Error(`Shader directory not found: ${dir}`);
+  }
+
+  const glob = new Bun.Glob("*.{json,ts,js}");
+  const files = [...glob.scanSync({ cwd: dir, absolute: true })]
+    .filter(file => !file.endsWith(".d.ts"))
+    .sort();
+
+  const shaders: ShaderDefinition[] = [];
+  for (const file of files) {
+    const shader = await loadShaderPlugin(file);
+    try {
+      registerShader(shader);
+    } catch (error) {
+      throw new Error(`Invalid shader plugin ${file}: ${error instanceof Error ? error.message : error}`);
+    }
+    shaders.push(shader);
+  }
+  return shaders;
+}
+
+/**
+ * Read a single plugin file into a shader definition
+ */
+export async function loadShaderPlugin(file: string): Promise<ShaderDefinition> {
+  try {
+    let raw: unknown;
+    if (file.endsWith(".json")) {
+      raw = await Bun.file(file).json();
+    } else {
+      const module = await import(file);
+      raw = module.default ?? module.shader;
+    }
+    return createPluginShader(raw);
+  } catch (error) {
+    throw new Error(`Invalid shader plugin ${file}: ${error instanceof Error ? error.message : error}`);
+  }
+}
+
+/**
+ * Validate a plugin declaration and turn it into a shader definition
+ */
+export function createPluginShader(raw: unknown): ShaderDefinition {
+  if (!raw || typeof raw !== "object") {
+    throw new Error("plugin must export an object with 'name' and 'filter'");
+  }
+
+  const plugin = raw as Record<string, unknown>;
+  const name = plugin.name;
+  if (typeof name !== "string" || !/^[a-z][a-z0-9-]*$/.test(name)) {
+    throw new Error(`shader name '${name}' must be lowercase letters, digits and dashes`);
+  }
+
+  const params = normalizePluginParams(plugin.params);
+  const description = typeof plugin.description === "string" ? plugin.description : "Shader plugin";
+
+  if (typeof plugin.build === "function") {
+    return { name, description, params, build: plugin.build as ShaderDefinition["build"] };
+  }
+
+  if (typeof plugin.filter !== "string" || plugin.filter.trim() === "") {
+    throw new Error(`shader '${name}' needs a 'filter' template`);
+  }
+
+  const template = plugin.filter;
+  for (const [, placeholder] of template.matchAll(/\{(\w+)\}/g)) {
+    if (!params[placeholder!] && !RESERVED_PLACEHOLDERS.includes(placeholder!)) {
+      throw new Error(`unknown placeholder '{${placeholder}}' in shader '${name}'`);
+    }
+  }
+
+  return {
+    name,
+    description,
+    params,
+    build: (values, { width, height, label }) =>
+      template
+        .replace(/\{(\w+)\}/g, (_, key: string) =>
+          String(key === "width" ? width : key === "height" ? height : values[key])
+        )
+        .replace(/\[(\w+)\]/g, (_, key: string) => label(key)),
+  };
+}
+
+/**
+ * Check a plugin's parameter declarations
+ */
+function normalizePluginParams(raw: unknown): Record<string, ShaderParam> {
+  if (raw === undefined) return {};
+  if (!raw || typeof raw !== "object" || Array.isArray(raw)) {
+    throw new Error("'params' must map parameter names to { default, min, max }");
+  }
+
+  const params: Record<string, ShaderParam> = {};
+  for (const [key, value] of Object.entries(raw as Record<string, any>)) {
+    if (RESERVED_PLACEHOLDERS.includes(key)) {
+      throw new Error(`parameter name '${key}' is reserved`);
+    }
+    const { default: fallback, min, max, description } = value ?? {};
+    if (![fallback, min, max].every(n => typeof n === "number" && Number.isFinite(n))) {
+      throw new Error(`parameter '${key}' needs numeric 'default', 'min' and 'max'`);
+    }
+    if (min > max || fallback < min || fallback > max) {
+      throw new Error(`parameter '${key}' default ${fallback} is outside ${min}..${max}`);
+    }
+    params[key] = { default: fallback, min, max, description: typeof description === "string" ? description : "" };
+  }
+  return params;
+}
@@ -0,0 +1,126 @@
+import { test, expect, describe } from "bun:test";
+import { createProgressParser, formatDuration, formatProgressBar, type ProgressEvent } from "./progress";
+
+describe("Progress Reporting", () => {
+  const context = { stage: "render" as const, step: 1, steps: 1, duration: 60 };
+
+  const block = (outTimeUs: number, speed: string, progress: string = "continue") =>
+    [
+      "frame=450",
+      "fps=75.00",
+      "bitrate=1200.0kbits/s",
+      `out_time_us=${outTimeUs}`,
+      `out_time_ms=${outTimeUs}`,
+      "out_time=00:00:15.000000",
+      `speed=${speed}`,
+      `progress=${progress}`,
+      "",
+    ].join("\n");
+
+  describe("createProgressParser", () => {
+    test("emits one event per key/value block", () => {
+      const events: ProgressEvent[] = [];
+      const parse = createProgressParser(context, e => events.push(e));
+      parse(block(15_000_000, "2.5x") + block(30_000_000, "2.5x"));
+      expect(events).toHaveLength(2);
+    });
+
+    test("computes percent, speed and ETA from duration", () => {
+      const events: ProgressEvent[] = [];
+      const parse = createProgressParser(context, e => events.push(e));
+      parse(block(15_000_000, "2.5x"));
+
+      const event = events[0]!;
+      expect(event.outTime).toBe(15);
+      expect(event.percent).toBe(25);
+      expect(event.speed).toBe(2.5);
+      expect(event.eta).toBe(18);
+      expect(event.frame).toBe(450);
+      expect(event.fps).toBe(75);
+      expect(event.done).toBe(false);
+      expect(event.stage).toBe("render");
+    });
+
+    test("handles blocks split across chunks", () => {
+      const events: ProgressEvent[] = [];
+      const parse = createProgressParser(context, e => events.push(e));
+      const text = block(30_000_000, "1.0x");
+      parse(text.slice(0, 37));
+      expect(events).toHaveLength(0);
+      parse(text.slice(37));
+      expect(events).toHaveLength(1);
+      expect(events[0]!.percent).toBe(50);
+    });
+
+    test("reports unknown speed as null", () => {
+      const events: ProgressEvent[] = [];
+      const parse = createProgressParser(context, e => events.push(e));
+      parse(block(0, "N/A"));
+      expect(events[0]!.speed).toBeNull();
+      expect(events[0]!.eta).toBeNull();
+    });
+
+    test("marks the final block as complete", () => {
+      const events: ProgressEvent[] = [];
+      const parse = createProgressParser(context, e => events.push(e));
+      parse(block(59_960_000, "3x", "end"));
+      expect(events[0]!.done).toBe(true);
+      expect(events[0]!.percent).toBe(100);
+      expect(events[0]!.eta).toBe(0);
+    });
+
+    test("clamps output time past the duration", () => {
+      const events: ProgressEvent[] = [];
+      const parse = createProgressParser(context, e => events.push(e));
+      parse(block(75_000_000, "1x"));
+      expect(events[0]!.percent).toBe(100);
+    });
+  });
+
+  describe("formatDuration", () => {
+    test("formats minutes and seconds", () => {
+      expect(formatDuration(0)).toBe("0:00");
+      expect(formatDuration(65)).toBe("1:05");
+    });
+
+    test("formats hours", () => {
+      expect(formatDuration(3725)).toBe("1:02:05");
+    });
+  });
+
+  describe("formatProgressBar", () => {
+    const event: ProgressEvent = {
+      ...context,
+      percent: 50,
+      outTime: 30,
+      speed: 2,
+      eta: 15,
+      frame: 900,
+      fps: 60,
+      done: false,
+    };
+
+    test("shows percent, speed and ETA", () => {
+      const line = formatProgressBar(event, 10);
+      expect(line).toContain("[#####-----]");
+      expect(line).toContain("50.0%");
+      expect(line).toContain("2.00x");
+      expect(line).toContain("ETA 0:15");
+    });
+
+    test("labels tile stages", () => {
+      const line = formatProgressBar({ ...event, stage: "tile", step: 2, steps: 5 });
+      expect(line).toStartWith("Tile 2/5");
+    });
+
+    test("labels clip preparation stages", () => {
+      const line = formatProgressBar({ ...event, stage: "prepare", step: 1, steps: 3 });
+      expect(line).toStartWith("Prep 1/3");
+    });
+
+    test("labels scene stages", () => {
+      const line = formatProgressBar({ ...event, stage: "scene", step: 2, steps: 4 });
+      expect(line).toStartWith("Scene 2/4");
+    });
+  });
+});
@@ -0,0 +1,116 @@
+/**
+ * Structured progress reporting
+ *
+ * Parses ffmpeg's `-progress` key/value output into progress events with
+ * percent complete, encoding speed and ETA computed from the known duration.
+ */
+
+export interface ProgressEvent {
+  stage: "prepare" | "tile" | "scene" | "render"; // Clip preparation, tile pre-render, scene pre-render or final composite
+  step: number; // 1-based index of the current ffmpeg run within its stage
+  steps: number; // Total ffmpeg runs in the stage
+  percent: number; // 0-100 for the current run
+  outTime: number; // Seconds of output written
+  duration: number; // Total output seconds expected
+  speed: number | null; // Encoding speed relative to realtime (e.g. 2.5 = 2.5x)
+  eta: number | null; // Estimated seconds remaining for the current run
+  frame: number;
+  fps: number;
+  done: boolean;
+}
+
+export type ProgressCallback = (event: ProgressEvent) => void;
+
+/**
+ * Create a parser for ffmpeg `-progress` output.
+ * Feed it raw chunks; it calls onProgress once per completed key/value block.
+ */
+export function createProgressParser(
+  context: Pick<ProgressEvent, "stage" | "step" | "steps" | "duration">,
+  onProgress: ProgressCallback
+): (chunk: string) => void {
+  let buffer = "";
+  let values: Record<string, string> = {};
+
+  return (chunk: string) => {
+    buffer += chunk;
+    const lines = buffer.split("\n");
+    buffer = lines.pop() ?? "";
+
+    for (const line of lines) {
+      const separator = line.indexOf("=");
+      if (separator === -1) continue;
+
+      const key = line.slice(0, separator).trim();
+      const value = line.slice(separator + 1).trim();
+      values[key] = value;
+
+      // Each block ends with progress=continue or progress=end
+      if (key === "progress") {
+        onProgress(toProgressEvent(values, context));
+        values = {};
+      }
+    }
+  };
+}
+
+function toProgressEvent(
+  values: Record<string, string>,
+  context: Pick<ProgressEvent, "stage" | "step" | "steps" | "duration">
+): ProgressEvent {
+  const { duration } = context;
+  const done = values.progress === "end";
+
+  // out_time_ms is also in microseconds (a long-standing ffmpeg quirk)
+  const outTimeUs = parseInt(values.out_time_us ?? values.out_time_ms ?? "0", 10);
+  const rawOutTime = Number.isFinite(outTimeUs) ? Math.max(0, outTimeUs / 1_000_000) : 0;
+  const outTime = done ? duration : Math.min(rawOutTime, duration);
+
+  const parsedSpeed = parseFloat((values.speed ?? "").replace("x", ""));
+  const speed = Number.isFinite(parsedSpeed) && parsedSpeed > 0 ? parsedSpeed : null;
+
+  const percent = duration > 0 ? Math.min(100, (outTime / duration) * 100) : done ? 100 : 0;
+  const eta = done ? 0 : speed ? (duration - outTime) / speed : null;
+
+  return {
+    ...context,
+    percent,
+    outTime,
+    speed,
+    eta,
+    frame: parseInt(values.frame ?? "0", 10) || 0,
+    fps: parseFloat(values.fps ?? "0") || 0,
+    done,
+  };
+}
+
+/**
+ * Format seconds as m:ss (or h:mm:ss for long renders)
+ */
+export function formatDuration(seconds: number): string {
+  const total = Math.max(0, Math.round(seconds));
+  const h = Math.floor(total / 3600);
+  const m = Math.floor((total % 3600) / 60);
+  const s = total % 60;
+  const pad = (n: number) => String(n).padStart(2, "0");
+  return h > 0 ? `${h}:${pad(m)}:${pad(s)}` : `${m}:${pad(s)}`;
+}
+
+/**
+ * Render a single-line progress bar for terminal output
+ */
+export function formatProgressBar(event: ProgressEvent, width: number = 30): string {
+  const filled = Math.round((event.percent / 100) * width);
+  const bar = "#".repeat(filled) + "-".repeat(width - filled);
+  const speed = event.speed ? `${event.speed.toFixed(2)}x` : "--";
+  const eta = event.eta !== null ? formatDuration(event.eta) : "--:--";
+  const stage = event.stage === "tile"
+    ? `Tile ${event.step}/${event.steps}`
+    : event.stage === "prepare"
+      ? `Prep ${event.step}/${event.steps}`
+      : event.stage === "scene"
+        ? `Scene ${event.step}/${event.steps}`
+        : "Render";
+
+  return `${stage.padEnd(11)} [${bar}] ${event.percent.toFixed(1).padStart(5)}%  ${speed.padStart(6)}  ETA ${eta}`;
+}
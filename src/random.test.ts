@@ -0,0 +1,33 @@
+import { test, expect, describe } from "bun:test";
+import { createRandom, pick } from "./random";
+
+describe("Random", () => {
+  test("repeats the same sequence for a seed", () => {
+    const a = createRandom(42);
+    const b = createRandom(42);
+    const first = [a(), a(), a()];
+    expect([b(), b(), b()]).toEqual(first);
+  });
+
+  test("gives different sequences for different seeds", () => {
+    expect(createRandom(1)()).not.toBe(createRandom(2)());
+  });
+
+  test("returns numbers in [0, 1)", () => {
+    const random = createRandom(7);
+    for (let i = 0; i < 1000; i++) {
+      const value = random();
+      expect(value).toBeGreaterThanOrEqual(0);
+      expect(value).toBeLessThan(1);
+    }
+  });
+
+  test("picks every element over many draws", () => {
+    const random = createRandom(3);
+    const seen = new Set<string>();
+    for (let i = 0; i < 100; i++) {
+      seen.add(pick(random, ["a", "b", "c", "d"]));
+    }
+    expect([...seen].sort()).toEqual(["a", "b", "c", "d"]);
+  });
+});
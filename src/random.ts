@@ -0,0 +1,29 @@
+/**
+ * Seeded random numbers
+ *
+ * A small deterministic generator (mulberry32), so options that pick things
+ * at random render the same collage again for the same seed.
+ */
+
+export type Random = () => number;
+
+/**
+ * Create a generator returning numbers in [0, 1) for a seed
+ */
+export function createRandom(seed: number): Random {
+  let state = Math.floor(seed) >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Pick one element of a non-empty list
+ */
+export function pick<T>(random: Random, items: readonly T[]): T {
+  return items[Math.floor(random() * items.length)]!;
+}
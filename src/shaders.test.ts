@@ -0,0 +1,159 @@
+import { describe, test, expect } from "bun:test";
+import {
+  parseShaderChain,
+  normalizeShaderChain,
+  resolveShaderParams,
+  buildShaderChain,
+  formatShaderChain,
+  formatShaderHelp,
+  listShaders,
+} from "./shaders";
+
+describe("shaders", () => {
+  describe("parseShaderChain", () => {
+    test("parses names and parameters", () => {
+      expect(parseShaderChain("vignette:angle=0.6,noise:strength=8")).toEqual([
+        { name: "vignette", params: { angle: 0.6 } },
+        { name: "noise", params: { strength: 8 } },
+      ]);
+    });
+
+    test("parses bare names without params", () => {
+      expect(parseShaderChain("crt, bloom")).toEqual([{ name: "crt" }, { name: "bloom" }]);
+    });
+
+    test("rejects non-numeric values", () => {
+      expect(() => parseShaderChain("noise:strength=lots")).toThrow("must be a number");
+    });
+
+    test("rejects assignments without a value", () => {
+      expect(() => parseShaderChain("noise:strength")).toThrow("expected name=value");
+    });
+  });
+
+  describe("resolveShaderParams", () => {
+    test("fills in defaults", () => {
+      expect(resolveShaderParams({ name: "bloom" })).toEqual({ sigma: 20, opacity: 0.3 });
+    });
+
+    test("overrides given parameters", () => {
+      expect(resolveShaderParams({ name: "bloom", params: { opacity: 0.8 } })).toEqual({ sigma: 20, opacity: 0.8 });
+    });
+
+    test("rejects unknown shaders and lists the available ones", () => {
+      expect(() => resolveShaderParams({ name: "sketch" })).toThrow("available: vignette, bloom");
+    });
+
+    test("rejects unknown parameters and lists the expected ones", () => {
+      expect(() => resolveShaderParams({ name: "crt", params: { glow: 1 } })).toThrow(
+        "expected scanlines, angle, noise"
+      );
+    });
+
+    test("rejects out-of-range values", () => {
+      expect(() => resolveShaderParams({ name: "vignette", params: { angle: 3 } })).toThrow(
+        "must be between 0 and 1.5708 (got 3)"
+      );
+    });
+  });
+
+  describe("normalizeShaderChain", () => {
+    test("returns an empty chain for no shader", () => {
+      expect(normalizeShaderChain(undefined)).toEqual([]);
+      expect(normalizeShaderChain("")).toEqual([]);
+    });
+
+    test("accepts a list of names and specs", () => {
+      expect(normalizeShaderChain(["vignette", { name: "noise", params: { strength: 5 } }])).toEqual([
+        { name: "vignette" },
+        { name: "noise", params: { strength: 5 } },
+      ]);
+    });
+
+    test("accepts a single spec object", () => {
+      expect(normalizeShaderChain({ name: "chromatic", params: { shift: 10 } })).toEqual([
+        { name: "chromatic", params: { shift: 10 } },
+      ]);
+    });
+
+    test("validates every entry", () => {
+      expect(() => normalizeShaderChain("vignette,noise:strength=500")).toThrow("between 0 and 100");
+      expect(() => normalizeShaderChain(42)).toThrow("Shader must be");
+    });
+  });
+
+  describe("buildShaderChain", () => {
+    test("connects a single shader from input to output", () => {
+      expect(buildShaderChain([{ name: "noise" }], 1920, 1080, "[tiled]", "[out]")).toEqual([
+        "[tiled]noise=alls=15:allf=t+u[out]",
+      ]);
+    });
+
+    test("chains shaders through intermediate labels", () => {
+      const parts = buildShaderChain(
+        [{ name: "vignette", params: { angle: 0.6 } }, { name: "noise" }, { name: "chromatic", params: { shift: 6 } }],
+        1920,
+        1080,
+        "[tiled]",
+        "[out]"
+      );
+      expect(parts).toEqual([
+        "[tiled]vignette=angle=0.6[sh0]",
+        "[sh0]noise=alls=15:allf=t+u[sh1]",
+        "[sh1]rgbashift=rh=-6:rv=0:gh=0:gv=0:bh=6:bv=0:edge=smear[out]",
+      ]);
+    });
+
+    test("keeps chains apart with a label prefix", () => {
+      const parts = buildShaderChain([{ name: "grayscale" }, { name: "bloom" }], 320, 180, "[v2_fx]", "[v2]", "fx2_");
+      expect(parts[0]).toBe("[v2_fx]hue=s=0[fx2_0]");
+      expect(parts[1]).toStartWith("[fx2_0]split[fx2_1_a][fx2_1_b]");
+      expect(parts[1]).toEndWith("[v2]");
+    });
+
+    test("gives each step its own internal labels", () => {
+      const graph = buildShaderChain([{ name: "bloom" }, { name: "bloom" }], 1920, 1080, "[tiled]", "[out]").join(";");
+      expect(graph).toContain("[sh0_blur]");
+      expect(graph).toContain("[sh1_blur]");
+      expect(graph).not.toContain("[blur]");
+    });
+  });
+
+  describe("color grading", () => {
+    const build = (spec: string) => buildShaderChain(normalizeShaderChain(spec), 320, 180, "[in]", "[out]")[0];
+
+    test("grayscale and sepia scale with their amount", () => {
+      expect(build("grayscale:amount=0.25")).toBe("[in]hue=s=0.75[out]");
+      expect(build("sepia")).toContain("rr=0.393:rg=0.769:rb=0.189");
+      expect(build("sepia:amount=0")).toContain("rr=1:rg=0:rb=0:gr=0:gg=1:gb=0:br=0:bg=0:bb=1");
+    });
+
+    test("adjustments map to eq, gblur and hflip", () => {
+      expect(build("brightness:amount=-0.2")).toBe("[in]eq=brightness=-0.2[out]");
+      expect(build("contrast")).toBe("[in]eq=contrast=1.2[out]");
+      expect(build("saturation:amount=0")).toBe("[in]eq=saturation=0[out]");
+      expect(build("blur:sigma=2")).toBe("[in]gblur=sigma=2[out]");
+      expect(build("hflip")).toBe("[in]hflip[out]");
+    });
+
+    test("hflip takes no parameters", () => {
+      expect(() => normalizeShaderChain("hflip:amount=1")).toThrow("expected no parameters");
+    });
+  });
+
+  describe("formatting", () => {
+    test("formatShaderChain shows names and overrides", () => {
+      expect(formatShaderChain([{ name: "vignette", params: { angle: 0.6 } }, { name: "noise" }])).toBe(
+        "vignette:angle=0.6 -> noise"
+      );
+    });
+
+    test("formatShaderHelp lists every shader with its parameter ranges", () => {
+      const help = formatShaderHelp();
+      for (const shader of listShaders()) {
+        expect(help).toContain(shader.name);
+      }
+      expect(help).toContain("strength=0..100 (default 15)");
+    });
+  });
+});
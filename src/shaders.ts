@@ -0,0 +1,335 @@
+/**
+ * Shader effects
+ *
+ * Each shader declares its parameters (with defaults and ranges) and builds
+ * an ffmpeg filter fragment from them. Fragments read from the chain's input
+ * and write to its output; any intermediate labels come from the context so
+ * several shaders can be chained in one graph.
+ */
+
+import type { ShaderSpec } from "./types";
+
+export interface ShaderParam {
+  default: number;
+  min: number;
+  max: number;
+  description: string;
+}
+
+export interface ShaderContext {
+  width: number;
+  height: number;
+  label: (name: string) => string; // Unique graph label for this step, e.g. label("blur") -> "[sh0_blur]"
+}
+
+export interface ShaderDefinition {
+  name: string;
+  description: string;
+  params: Record<string, ShaderParam>;
+  build: (params: Record<string, number>, context: ShaderContext) => string;
+}
+
+export const BUILTIN_SHADERS: ShaderDefinition[] = [
+  {
+    name: "vignette",
+    description: "Darkens frame edges",
+    params: {
+      angle: { default: 0.785, min: 0, max: 1.5708, description: "Lens angle in radians; larger is darker" },
+    },
+    build: ({ angle }) => `vignette=angle=${angle}`,
+  },
+  {
+    name: "bloom",
+    description: "Glow on bright areas",
+    params: {
+      sigma: { default: 20, min: 1, max: 100, description: "Glow radius" },
+      opacity: { default: 0.3, min: 0, max: 1, description: "Glow strength" },
+    },
+    build: ({ sigma, opacity }, { label }) =>
+      `split${label("a")}${label("b")};${label("b")}gblur=sigma=${sigma},curves=all='0/0 0.5/0.7 1/1'${label("blur")};` +
+      `${label("a")}${label("blur")}blend=all_mode=screen:all_opacity=${opacity}`,
+  },
+  {
+    name: "chromatic",
+    description: "RGB channel separation",
+    params: {
+      shift: { default: 4, min: 0, max: 50, description: "Red/blue offset in pixels" },
+    },
+    build: ({ shift }) => `rgbashift=rh=${-shift!}:rv=0:gh=0:gv=0:bh=${shift}:bv=0:edge=smear`,
+  },
+  {
+    name: "noise",
+    description: "Film grain texture",
+    params: {
+      strength: { default: 15, min: 0, max: 100, description: "Grain amount" },
+    },
+    build: ({ strength }) => `noise=alls=${strength}:allf=t+u`,
+  },
+  {
+    name: "crt",
+    description: "CRT monitor + scanlines",
+    params: {
+      scanlines: { default: 0.15, min: 0, max: 1, description: "Scanline darkness" },
+      angle: { default: 1.047, min: 0, max: 1.5708, description: "Vignette angle in radians" },
+      noise: { default: 8, min: 0, max: 100, description: "Static noise amount" },
+    },
+    build: ({ scanlines, angle, noise }, { width, height, label }) =>
+      `format=rgb24,split${label("a")}${label("b")};${label("a")}curves=all='0/0.05 0.5/0.5 1/0.95'${label("c")};` +
+      `${label("b")}scale=${width}:${height * 2}:flags=neighbor,scale=${width}:${height}:flags=neighbor${label("scan")};` +
+      `${label("c")}${label("scan")}blend=all_mode=multiply:all_opacity=${scanlines},vignette=angle=${angle},noise=alls=${noise}:allf=t`,
+  },
+  {
+    name: "dreamy",
+    description: "Soft ethereal glow",
+    params: {
+      sigma: { default: 30, min: 1, max: 100, description: "Glow radius" },
+      opacity: { default: 0.5, min: 0, max: 1, description: "Glow strength" },
+      saturation: { default: 0.8, min: 0, max: 3, description: "Color saturation" },
+      brightness: { default: 0.05, min: -1, max: 1, description: "Brightness offset" },
+    },
+    build: ({ sigma, opacity, saturation, brightness }, { label }) =>
+      `split${label("a")}${label("b")};${label("b")}gblur=sigma=${sigma}${label("blur")};` +
+      `${label("a")}${label("blur")}blend=all_mode=softlight:all_opacity=${opacity},` +
+      `eq=saturation=${saturation}:brightness=${brightness},vignette=angle=0.785`,
+  },
+
+  // Color grading, mostly useful as per-cell effects
+  {
+    name: "grayscale",
+    description: "Remove color",
+    params: {
+      amount: { default: 1, min: 0, max: 1, description: "How much color to remove" },
+    },
+    build: ({ amount }) => `hue=s=${round(1 - amount!)}`,
+  },
+  {
+    name: "sepia",
+    description: "Warm brown tint",
+    params: {
+      amount: { default: 1, min: 0, max: 1, description: "Tint strength" },
+    },
+    build: ({ amount }) => {
+      const mix = (sepia: number, identity: number) => round(identity + (sepia - identity) * amount!);
+      const rows = [
+        [0.393, 0.769, 0.189],
+        [0.349, 0.686, 0.168],
+        [0.272, 0.534, 0.131],
+      ];
+      const values = rows.map((row, r) => row.map((value, c) => `${"rgb"[r]}${"rgb"[c]}=${mix(value, r === c ? 1 : 0)}`));
+      return `colorchannelmixer=${values.flat().join(":")}`;
+    },
+  },
+  {
+    name: "brightness",
+    description: "Brightness offset",
+    params: {
+      amount: { default: 0.1, min: -1, max: 1, description: "Offset added to every pixel" },
+    },
+    build: ({ amount }) => `eq=brightness=${amount}`,
+  },
+  {
+    name: "contrast",
+    description: "Contrast multiplier",
+    params: {
+      amount: { default: 1.2, min: 0, max: 3, description: "1 leaves the contrast unchanged" },
+    },
+    build: ({ amount }) => `eq=contrast=${amount}`,
+  },
+  {
+    name: "saturation",
+    description: "Saturation multiplier",
+    params: {
+      amount: { default: 1.5, min: 0, max: 3, description: "1 leaves the color unchanged" },
+    },
+    build: ({ amount }) => `eq=saturation=${amount}`,
+  },
+  {
+    name: "blur",
+    description: "Gaussian blur",
+    params: {
+      sigma: { default: 5, min: 0.1, max: 100, description: "Blur radius" },
+    },
+    build: ({ sigma }) => `gblur=sigma=${sigma}`,
+  },
+  {
+    name: "hflip",
+    description: "Mirror horizontally",
+    params: {},
+    build: () => "hflip",
+  },
+];
+
+function round(value: number): number {
+  return Math.round(value * 1000) / 1000;
+}
+
+const registry = new Map<string, ShaderDefinition>(BUILTIN_SHADERS.map(shader => [shader.name, shader]));
+
+/**
+ * Add a shader to the registry, e.g. one loaded from a plugin file
+ */
+export function registerShader(shader: ShaderDefinition): void {
+  if (registry.has(shader.name)) {
+    throw new Error(`Shader '${shader.name}' is already registered`);
+  }
+  registry.set(shader.name, shader);
+}
+
+/**
+ * Look up a shader by name
+ */
+export function getShader(name: string): ShaderDefinition | undefined {
+  return registry.get(name);
+}
+
+/**
+ * All shaders, in registration order
+ */
+export function listShaders(): ShaderDefinition[] {
+  return [...registry.values()];
+}
+
+/**
+ * Parse a command-line shader chain such as
+ * "vignette:angle=0.6,noise:strength=8". Values are validated separately.
+ */
+export function parseShaderChain(value: string): ShaderSpec[] {
+  return value
+    .split(",")
+    .map(part => part.trim())
+    .filter(Boolean)
+    .map(part => {
+      const [name, ...assignments] = part.split(":");
+      const params: Record<string, number> = {};
+
+      for (const assignment of assignments) {
+        const separator = assignment.indexOf("=");
+        if (separator === -1) {
+          throw new Error(`Invalid shader parameter '${assignment}' for '${name}' (expected name=value)`);
+        }
+        const key = assignment.slice(0, separator).trim();
+        const raw = assignment.slice(separator + 1).trim();
+        const number = Number(raw);
+        if (raw === "" || !Number.isFinite(number)) {
+          throw new Error(`Shader '${name}' parameter '${key}' must be a number (got '${raw}')`);
+        }
+        params[key] = number;
+      }
+
+      return assignments.length > 0 ? { name: name!.trim(), params } : { name: name!.trim() };
+    });
+}
+
+/**
+ * Normalize a shader setting into a validated chain.
+ * Accepts a chain string, a single spec, or an array of specs or names.
+ */
+export function normalizeShaderChain(value: unknown): ShaderSpec[] {
+  if (value === undefined || value === null || value === "") return [];
+
+  let specs: ShaderSpec[];
+  if (typeof value === "string") {
+    specs = parseShaderChain(value);
+  } else if (Array.isArray(value)) {
+    specs = value.map(entry => (typeof entry === "string" ? { name: entry } : entry));
+  } else if (typeof value === "object") {
+    specs = [value as ShaderSpec];
+  } else {
+    throw new Error("Shader must be a name, a chain string, or a list of {name, params}");
+  }
+
+  for (const spec of specs) {
+    resolveShaderParams(spec);
+  }
+  return specs;
+}
+
+/**
+ * Fill in defaults for a shader spec and check every value against the
+ * shader's declared parameters
+ */
+export function resolveShaderParams(spec: ShaderSpec): Record<string, number> {
+  if (!spec || typeof spec.name !== "string") {
+    throw new Error("Shader entries need a 'name'");
+  }
+
+  const shader = getShader(spec.name);
+  if (!shader) {
+    throw new Error(`Unknown shader '${spec.name}' (available: ${listShaders().map(s => s.name).join(", ")})`);
+  }
+
+  const declared = Object.keys(shader.params);
+  const params: Record<string, number> = {};
+  for (const [key, param] of Object.entries(shader.params)) {
+    params[key] = param.default;
+  }
+
+  for (const [key, value] of Object.entries(spec.params ?? {})) {
+    const param = shader.params[key];
+    if (!param) {
+      const expected = declared.length > 0 ? declared.join(", ") : "no parameters";
+      throw new Error(`Unknown parameter '${key}' for shader '${spec.name}' (expected ${expected})`);
+    }
+    if (typeof value !== "number" || !Number.isFinite(value)) {
+      throw new Error(`Shader '${spec.name}' parameter '${key}' must be a number (got '${value}')`);
+    }
+    if (value < param.min || value > param.max) {
+      throw new Error(`Shader '${spec.name}' parameter '${key}' must be between ${param.min} and ${param.max} (got ${value})`);
+    }
+    params[key] = value;
+  }
+
+  return params;
+}
+
+/**
+ * Build the filter chains that apply a shader chain from one graph label to another.
+ * The prefix keeps intermediate labels apart when several chains share a graph.
+ */
+export function buildShaderChain(
+  specs: ShaderSpec[],
+  width: number,
+  height: number,
+  input: string,
+  output: string,
+  prefix: string = "sh"
+): string[] {
+  return specs.map((spec, i) => {
+    const shader = getShader(spec.name)!;
+    const from = i === 0 ? input : `[${prefix}${i - 1}]`;
+    const to = i === specs.length - 1 ? output : `[${prefix}${i}]`;
+    const filter = shader.build(resolveShaderParams(spec), {
+      width,
+      height,
+      label: name => `[${prefix}${i}_${name}]`,
+    });
+    return `${from}${filter}${to}`;
+  });
+}
+
+/**
+ * Format the shader list with parameters for help output
+ */
+export function formatShaderHelp(): string {
+  return listShaders()
+    .map(shader => {
+      const params = Object.entries(shader.params).map(
+        ([key, param]) => `${key}=${param.min}..${param.max} (default ${param.default})`
+      );
+      const lines = [`  ${shader.name.padEnd(11)} ${shader.description}`];
+      if (params.length > 0) {
+        lines.push(`  ${"".padEnd(11)} ${params.join(", ")}`);
+      }
+      return lines.join("\n");
+    })
+    .join("\n");
+}
+
+/**
+ * Format a shader chain for logs, e.g. "vignette:angle=0.6 -> noise"
+ */
+export function formatShaderChain(specs: ShaderSpec[]): string {
+  return specs
+    .map(spec => [spec.name, ...Object.entries(spec.params ?? {}).map(([key, value]) => `${key}=${value}`)].join(":"))
+    .join(" -> ");
+}
@@ -0,0 +1,74 @@
+import { test, expect, describe } from "bun:test";
+import { shellQuote, formatCommand, buildShellScript, SCRIPT_WORKDIR } from "./shell";
+import type { FfmpegJob } from "./ffmpeg";
+
+describe("Shell Formatting", () => {
+  describe("shellQuote", () => {
+    test("leaves safe arguments unquoted", () => {
+      expect(shellQuote("-filter_complex")).toBe("-filter_complex");
+      expect(shellQuote("/media/clip-01.mp4")).toBe("/media/clip-01.mp4");
+    });
+
+    test("quotes spaces and shell metacharacters", () => {
+      expect(shellQuote("my video.mp4")).toBe("'my video.mp4'");
+      expect(shellQuote("[0:v]scale=640:360[v0];[v0]null[out]")).toBe("'[0:v]scale=640:360[v0];[v0]null[out]'");
+      expect(shellQuote("$HOME")).toBe("'$HOME'");
+    });
+
+    test("escapes single quotes", () => {
+      expect(shellQuote("it's.mp4")).toBe(`'it'\\''s.mp4'`);
+    });
+
+    test("quotes empty strings", () => {
+      expect(shellQuote("")).toBe("''");
+    });
+
+    test("keeps the script work dir expandable", () => {
+      expect(shellQuote(`${SCRIPT_WORKDIR}/tile 1.mkv`)).toBe(`"$WORKDIR"/'tile 1.mkv'`);
+    });
+  });
+
+  describe("formatCommand", () => {
+    test("keeps options with their values", () => {
+      const command = formatCommand(["-y", "-i", "a.mp4", "-stream_loop", "-1", "-i", "b c.mp4", "out.mp4"]);
+      expect(command.split(" \\\n  ")).toEqual([
+        "ffmpeg",
+        "-y",
+        "-i a.mp4",
+        "-stream_loop -1",
+        "-i 'b c.mp4'",
+        "out.mp4",
+      ]);
+    });
+  });
+
+  describe("buildShellScript", () => {
+    const job = (label: string, output: string, step: number = 1): FfmpegJob => ({
+      stage: "render",
+      step,
+      steps: 1,
+      label,
+      output,
+      duration: 10,
+      filterParts: ["color=c=black:s=64x64[bg]", "[bg]null[out]"],
+      filterScript: `${SCRIPT_WORKDIR}/graph_${step}.txt`,
+      args: ["-y", "-i", "a.mp4", "-filter_complex_script", `${SCRIPT_WORKDIR}/graph_${step}.txt`, output],
+    });
+
+    test("creates a runnable script with a temp work dir", () => {
+      const script = buildShellScript([job("Tile 1/1", `${SCRIPT_WORKDIR}/tile_1.mkv`), job("Composite", "out.mp4", 2)]);
+      expect(script).toStartWith("#!/bin/sh\n");
+      expect(script).toContain("set -e");
+      expect(script).toContain(`WORKDIR="$(mktemp -d)"`);
+      expect(script).toContain("# Tile 1/1");
+      expect(script).toContain(`"$WORKDIR"/tile_1.mkv`);
+      expect(script.indexOf("# Tile 1/1")).toBeLessThan(script.indexOf("# Composite"));
+    });
+
+    test("writes each filter graph before its command", () => {
+      const script = buildShellScript([job("Composite", "out.mp4")]);
+      expect(script).toContain(`cat > "$WORKDIR"/graph_1.txt <<'FILTERGRAPH'\ncolor=c=black:s=64x64[bg];\n[bg]null[out]\nFILTERGRAPH\n`);
+      expect(script.indexOf("FILTERGRAPH\nffmpeg")).toBeGreaterThan(0);
+    });
+  });
+});
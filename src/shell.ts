@@ -0,0 +1,75 @@
+/**
+ * Shell formatting for dry runs and emitted render scripts
+ */
+
+import { formatFilterScript, type FfmpegJob } from "./ffmpeg";
+
+// Placeholder work dir used when planning a render that will run from a script.
+// Emitted scripts define it with mktemp; shellQuote leaves it expandable.
+export const SCRIPT_WORKDIR = "$WORKDIR";
+
+/**
+ * Quote a single argument for POSIX sh.
+ * Arguments inside the script work dir keep the variable expandable.
+ */
+export function shellQuote(arg: string): string {
+  if (arg.startsWith(`${SCRIPT_WORKDIR}/`)) {
+    return `"${SCRIPT_WORKDIR}"/${shellQuote(arg.slice(SCRIPT_WORKDIR.length + 1))}`;
+  }
+  if (arg !== "" && /^[A-Za-z0-9_@%+=:,./-]+$/.test(arg)) {
+    return arg;
+  }
+  return `'${arg.replace(/'/g, `'\\''`)}'`;
+}
+
+/**
+ * Format an ffmpeg invocation as a copy-pasteable multi-line command.
+ * Each option is kept on one line with its value.
+ */
+export function formatCommand(args: string[]): string {
+  const lines: string[] = ["ffmpeg"];
+  let i = 0;
+
+  while (i < args.length) {
+    const arg = args[i]!;
+    const next = args[i + 1];
+    const isFlag = /^-[A-Za-z]/.test(arg);
+
+    if (isFlag && next !== undefined && !/^-[A-Za-z]/.test(next)) {
+      lines.push(`${shellQuote(arg)} ${shellQuote(next)}`);
+      i += 2;
+    } else {
+      lines.push(shellQuote(arg));
+      i += 1;
+    }
+  }
+
+  return lines.join(" \\\n  ");
+}
+
+/**
+ * Build a runnable shell script that performs every job in order
+ */
+export function buildShellScript(jobs: FfmpegJob[]): string {
+  const lines = [
+    "#!/bin/sh",
+    "# Generated by video-collage --emit-script",
+    "set -e",
+    "",
+    `WORKDIR="$(mktemp -d)"`,
+    `trap 'rm -rf "$WORKDIR"' EXIT`,
+  ];
+
+  for (const job of jobs) {
+    lines.push(
+      "",
+      `# ${job.label}`,
+      // Quoted delimiter: the graph is written verbatim, without expansion
+      `cat > ${shellQuote(job.filterScript)} <<'FILTERGRAPH'`,
+      formatFilterScript(job) + "FILTERGRAPH",
+      formatCommand(job.args),
+    );
+  }
+
+  return lines.join("\n") + "\n";
+}
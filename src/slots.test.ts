@@ -0,0 +1,80 @@
+import { describe, test, expect } from "bun:test";
+import type { MediaItem } from "./types";
+import { assignSlots, getQueueTimings, getQueueCrossfade, AVAILABLE_SLOT_ORDERS } from "./slots";
+
+const clips = (count: number, extra: (i: number) => Partial<MediaItem> = () => ({})): MediaItem[] =>
+  Array.from({ length: count }, (_, i) => ({ path: `clip${i}.mp4`, type: "video" as const, ...extra(i) }));
+
+const paths = (queues: MediaItem[][]) => queues.map(queue => queue.map(item => item.path));
+
+describe("slots", () => {
+  describe("assignSlots", () => {
+    test("deals media round-robin by default", () => {
+      expect(paths(assignSlots(clips(7), { count: 3 }))).toEqual([
+        ["clip0.mp4", "clip3.mp4", "clip6.mp4"],
+        ["clip1.mp4", "clip4.mp4"],
+        ["clip2.mp4", "clip5.mp4"],
+      ]);
+    });
+
+    test("gives every cell media before any cell gets a second item", () => {
+      const queues = assignSlots(clips(40), { count: 9 });
+      expect(queues).toHaveLength(9);
+      expect(queues.map(queue => queue.length)).toEqual([5, 5, 5, 5, 4, 4, 4, 4, 4]);
+    });
+
+    test("keeps pinned items in their slot and balances the rest around them", () => {
+      const media = clips(5, i => (i === 4 ? { slot: 0 } : {}));
+      expect(paths(assignSlots(media, { count: 2 }))).toEqual([
+        ["clip4.mp4", "clip1.mp4", "clip3.mp4"],
+        ["clip0.mp4", "clip2.mp4"],
+      ]);
+    });
+
+    test("shuffles the same way for the same seed", () => {
+      const media = clips(12);
+      const first = paths(assignSlots(media, { count: 4, order: "random", seed: 7 }));
+      expect(paths(assignSlots(media, { count: 4, order: "random", seed: 7 }))).toEqual(first);
+      expect(paths(assignSlots(media, { count: 4, order: "random", seed: 8 }))).not.toEqual(first);
+      expect(first.flat().sort()).toEqual(media.map(item => item.path).sort());
+    });
+
+    test("uses each item's slot in assigned order", () => {
+      const media = clips(4, i => ({ slot: i % 2 === 0 ? 1 : 0 }));
+      expect(paths(assignSlots(media, { count: 2, order: "assigned" }))).toEqual([
+        ["clip1.mp4", "clip3.mp4"],
+        ["clip0.mp4", "clip2.mp4"],
+      ]);
+    });
+
+    test("rejects missing and out-of-range slots", () => {
+      expect(() => assignSlots(clips(2), { count: 2, order: "assigned" })).toThrow("has no slot");
+      expect(() => assignSlots(clips(1, () => ({ slot: 3 })), { count: 2 })).toThrow("out of range (0-1)");
+    });
+
+    test("drops cells without media", () => {
+      expect(assignSlots(clips(2), { count: 4 })).toHaveLength(2);
+    });
+  });
+
+  describe("timing", () => {
+    test("plays items back to back without a crossfade", () => {
+      expect(getQueueTimings([3, 5, 2], 0)).toEqual({ offsets: [0, 3, 8], total: 10 });
+    });
+
+    test("overlaps items by the crossfade", () => {
+      expect(getQueueTimings([3, 5, 2], 1)).toEqual({ offsets: [0, 2, 6], total: 8 });
+    });
+
+    test("limits the crossfade to half the shortest item", () => {
+      expect(getQueueCrossfade([4, 1, 6], 2)).toBe(0.5);
+      expect(getQueueCrossfade([4, 6], 1)).toBe(1);
+      expect(getQueueCrossfade([4], 1)).toBe(0);
+      expect(getQueueCrossfade([4, 6])).toBe(0);
+    });
+  });
+
+  test("AVAILABLE_SLOT_ORDERS has all expected orders", () => {
+    expect(AVAILABLE_SLOT_ORDERS).toEqual(["round-robin", "random", "assigned"]);
+  });
+});
@@ -0,0 +1,77 @@
+/**
+ * Cell playlists
+ *
+ * In slots mode the layout has a fixed number of cells and each cell plays
+ * a queue of media one item after another. Every queue is pre-rendered to a
+ * clip at its cell size, which then loops like any other cell.
+ */
+
+import type { MediaItem, SlotOrder, SlotsConfig } from "./types";
+import { createRandom } from "./random";
+
+export const AVAILABLE_SLOT_ORDERS: SlotOrder[] = ["round-robin", "random", "assigned"];
+
+/**
+ * Deal media into one queue per cell. Items with a `slot` always join that
+ * queue; the rest are dealt in turn to the shortest queues, in list order or
+ * shuffled with the seed. Cells left without media are dropped.
+ */
+export function assignSlots(media: MediaItem[], slots: SlotsConfig): MediaItem[][] {
+  const order = slots.order ?? "round-robin";
+  const queues: MediaItem[][] = Array.from({ length: slots.count }, () => []);
+  const unassigned: MediaItem[] = [];
+
+  for (const item of media) {
+    if (item.slot === undefined) {
+      if (order === "assigned") {
+        throw new Error(`Media ${item.path} has no slot (slot order 'assigned' needs one on every item)`);
+      }
+      unassigned.push(item);
+      continue;
+    }
+    if (!Number.isInteger(item.slot) || item.slot < 0 || item.slot >= slots.count) {
+      throw new Error(`Slot ${item.slot} for ${item.path} is out of range (0-${slots.count - 1})`);
+    }
+    queues[item.slot]!.push(item);
+  }
+
+  if (order === "random") {
+    const random = createRandom(slots.seed ?? 0);
+    for (let i = unassigned.length - 1; i > 0; i--) {
+      const j = Math.floor(random() * (i + 1));
+      [unassigned[i], unassigned[j]] = [unassigned[j]!, unassigned[i]!];
+    }
+  }
+
+  for (const item of unassigned) {
+    // Shortest queue first, lowest index on ties: plain round-robin without pinned items
+    const target = queues.reduce((best, queue, i) => (queue.length < queues[best]!.length ? i : best), 0);
+    queues[target]!.push(item);
+  }
+
+  return queues.filter(queue => queue.length > 0);
+}
+
+/**
+ * Start time of each queued item and the queue's total length.
+ * With a crossfade, each item starts that much before the previous one ends.
+ */
+export function getQueueTimings(durations: number[], crossfade: number): { offsets: number[]; total: number } {
+  const offsets: number[] = [];
+  let time = 0;
+
+  durations.forEach((duration, i) => {
+    offsets.push(time);
+    time += duration - (i < durations.length - 1 ? crossfade : 0);
+  });
+
+  return { offsets, total: time };
+}
+
+/**
+ * Crossfade length that fits the queue: at most half of its shortest item
+ */
+export function getQueueCrossfade(durations: number[], crossfade: number = 0): number {
+  if (durations.length < 2 || crossfade <= 0) return 0;
+  return Math.min(crossfade, Math.min(...durations) / 2);
+}
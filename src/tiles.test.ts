@@ -0,0 +1,114 @@
+import { test, expect, describe } from "bun:test";
+import { groupIntoTiles, getTileCellLimit, boundingBox } from "./tiles";
+import { calculateLayout, type LayoutType } from "./layout";
+import type { CellPosition } from "./types";
+
+describe("Tile Grouping", () => {
+  const createItems = (count: number) =>
+    Array.from({ length: count }, (_, i) => ({ index: i, aspect: i % 3 === 0 ? 9 / 16 : 16 / 9 }));
+
+  const overlaps = (a: { x: number; y: number; width: number; height: number }, b: typeof a) =>
+    a.x < b.x + b.width && b.x < a.x + a.width && a.y < b.y + b.height && b.y < a.y + a.height;
+
+  describe("getTileCellLimit", () => {
+    test("scales with the square root of the cell count", () => {
+      expect(getTileCellLimit(16)).toBe(4);
+      expect(getTileCellLimit(50)).toBe(8);
+      expect(getTileCellLimit(100)).toBe(10);
+    });
+
+    test("never goes below four cells", () => {
+      expect(getTileCellLimit(2)).toBe(4);
+    });
+  });
+
+  describe("boundingBox", () => {
+    test("covers all cells", () => {
+      const box = boundingBox([
+        { x: 10, y: 20, width: 100, height: 50, mediaIndex: 0 },
+        { x: 200, y: 5, width: 40, height: 40, mediaIndex: 1 },
+      ]);
+      expect(box).toEqual({ x: 10, y: 5, width: 230, height: 65 });
+    });
+  });
+
+  describe("groupIntoTiles", () => {
+    test("returns empty array for no cells", () => {
+      expect(groupIntoTiles([], 4)).toHaveLength(0);
+    });
+
+    test("keeps small layouts in one tile", () => {
+      const positions = calculateLayout(createItems(4), { type: "grid", canvasWidth: 1920, canvasHeight: 1080 });
+      const tiles = groupIntoTiles(positions, 8);
+      expect(tiles).toHaveLength(1);
+      expect(tiles[0]!.positions).toHaveLength(4);
+    });
+
+    test("splits a grid into tiles under the limit", () => {
+      const positions = calculateLayout(createItems(36), { type: "grid", canvasWidth: 1920, canvasHeight: 1080, gap: 4 });
+      const tiles = groupIntoTiles(positions, 6);
+      expect(tiles.length).toBeGreaterThan(1);
+      for (const tile of tiles) {
+        expect(tile.positions.length).toBeLessThanOrEqual(6);
+      }
+    });
+
+    test("keeps every cell exactly once", () => {
+      const positions = calculateLayout(createItems(50), { type: "dynamic", canvasWidth: 1920, canvasHeight: 1080, gap: 4 });
+      const tiles = groupIntoTiles(positions, getTileCellLimit(50));
+      const indices = tiles.flatMap(t => t.positions.map(p => p.mediaIndex)).sort((a, b) => a - b);
+      expect(indices).toEqual(positions.map(p => p.mediaIndex).sort((a, b) => a - b));
+    });
+
+    const layouts: LayoutType[] = ["grid", "dynamic", "masonry", "treemap", "pack"];
+    for (const type of layouts) {
+      test(`produces non-overlapping tiles containing their cells (${type})`, () => {
+        const positions = calculateLayout(createItems(60), { type, canvasWidth: 1920, canvasHeight: 1080, gap: 2 });
+        const tiles = groupIntoTiles(positions, getTileCellLimit(60));
+
+        for (let i = 0; i < tiles.length; i++) {
+          for (let j = i + 1; j < tiles.length; j++) {
+            expect(overlaps(tiles[i]!, tiles[j]!)).toBe(false);
+          }
+          for (const pos of tiles[i]!.positions) {
+            expect(pos.x).toBeGreaterThanOrEqual(tiles[i]!.x);
+            expect(pos.y).toBeGreaterThanOrEqual(tiles[i]!.y);
+            expect(pos.x + pos.width).toBeLessThanOrEqual(tiles[i]!.x + tiles[i]!.width);
+            expect(pos.y + pos.height).toBeLessThanOrEqual(tiles[i]!.y + tiles[i]!.height);
+          }
+        }
+      });
+    }
+
+    test("splits cells that cannot be cut apart into bands under the limit", () => {
+      // Pinwheel arrangement: every straight cut crosses a cell. The middle is four small cells.
+      const pinwheel: CellPosition[] = [
+        { x: 0, y: 0, width: 200, height: 100, mediaIndex: 0 },
+        { x: 200, y: 0, width: 100, height: 200, mediaIndex: 1 },
+        { x: 100, y: 200, width: 200, height: 100, mediaIndex: 2 },
+        { x: 0, y: 100, width: 100, height: 200, mediaIndex: 3 },
+        { x: 100, y: 100, width: 50, height: 50, mediaIndex: 4 },
+        { x: 150, y: 100, width: 50, height: 50, mediaIndex: 5 },
+        { x: 100, y: 150, width: 50, height: 50, mediaIndex: 6 },
+        { x: 150, y: 150, width: 50, height: 50, mediaIndex: 7 },
+      ];
+      const tiles = groupIntoTiles(pinwheel, 4);
+
+      // The arms can't share a region without covering another cell; the middle can
+      expect(tiles.map(tile => tile.positions.map(p => p.mediaIndex))).toEqual([[0], [1], [3], [4, 5, 6, 7], [2]]);
+      for (let i = 0; i < tiles.length; i++) {
+        for (let j = i + 1; j < tiles.length; j++) {
+          expect(overlaps(tiles[i]!, tiles[j]!)).toBe(false);
+        }
+      }
+    });
+
+    test("keeps packed layouts under the cell limit", () => {
+      const positions = calculateLayout(createItems(60), { type: "pack", canvasWidth: 1920, canvasHeight: 1080, gap: 2 });
+      const limit = getTileCellLimit(60);
+      const tiles = groupIntoTiles(positions, limit);
+      expect(Math.max(...tiles.map(tile => tile.positions.length))).toBeLessThanOrEqual(limit);
+      expect(tiles.filter(tile => tile.positions.length > 1).length).toBeGreaterThan(1);
+    });
+  });
+});
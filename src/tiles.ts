@@ -0,0 +1,153 @@
+/**
+ * Tile grouping for large collages
+ *
+ * Splits a computed layout into regions of neighbouring cells so that each
+ * region can be pre-rendered as an intermediate tile at its final size.
+ * The final pass then composites a handful of tiles instead of every clip,
+ * keeping the filter graph small without scaling anything twice.
+ */
+
+import type { CellPosition } from "./types";
+
+export interface TileRegion {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  positions: CellPosition[]; // Cells inside this region (canvas coordinates)
+}
+
+/**
+ * Number of cells per tile for a collage of the given size.
+ * Using sqrt(n) keeps both the tile renders and the final composite at
+ * roughly sqrt(n) inputs each.
+ */
+export function getTileCellLimit(cellCount: number): number {
+  return Math.max(4, Math.ceil(Math.sqrt(cellCount)));
+}
+
+/**
+ * Group cells into non-overlapping rectangular regions of at most
+ * maxCellsPerTile cells. Regions are split recursively along straight cuts
+ * that no cell crosses; a group with no such cut is split into bands instead.
+ */
+export function groupIntoTiles(positions: CellPosition[], maxCellsPerTile: number): TileRegion[] {
+  if (positions.length === 0) return [];
+
+  const region = { ...boundingBox(positions), positions };
+  if (positions.length <= maxCellsPerTile) {
+    return [region];
+  }
+
+  const cut = findBestCut(positions);
+  if (!cut) {
+    // Every straight cut crosses a cell, as in packed layouts
+    return groupIntoBands(positions, maxCellsPerTile);
+  }
+
+  return [
+    ...groupIntoTiles(cut.before, maxCellsPerTile),
+    ...groupIntoTiles(cut.after, maxCellsPerTile),
+  ];
+}
+
+/**
+ * Group cells in reading order (top to bottom, then left to right) into
+ * regions of up to maxCellsPerTile cells. A cell joins a region together
+ * with any ungrouped cells the grown bounding box covers, as long as the box
+ * stays clear of other regions and their cells, so regions never overlap. A
+ * cell that fits nowhere becomes a region of its own.
+ */
+function groupIntoBands(positions: CellPosition[], maxCellsPerTile: number): TileRegion[] {
+  const sorted = [...positions].sort((a, b) => a.y - b.y || a.x - b.x);
+  const grouped = new Set<CellPosition>();
+  const regions: TileRegion[] = [];
+
+  for (const first of sorted) {
+    if (grouped.has(first)) continue;
+    let members = [first];
+    grouped.add(first);
+
+    for (const cell of sorted) {
+      if (members.length >= maxCellsPerTile) break;
+      if (grouped.has(cell)) continue;
+
+      const grown = growRegion([...members, cell], positions, grouped, maxCellsPerTile);
+      if (grown && regions.every(r => !overlaps(boundingBox(grown), r))) {
+        members = grown;
+        grown.forEach(p => grouped.add(p));
+      }
+    }
+
+    regions.push({ ...boundingBox(members), positions: members });
+  }
+
+  return regions;
+}
+
+/**
+ * Add the ungrouped cells a region's bounding box covers until it covers no
+ * other cell. Returns null when that needs a grouped cell or too many cells.
+ */
+function growRegion(
+  members: CellPosition[],
+  positions: CellPosition[],
+  grouped: Set<CellPosition>,
+  maxCellsPerTile: number
+): CellPosition[] | null {
+  while (true) {
+    const box = boundingBox(members);
+    const covered = positions.filter(p => !members.includes(p) && overlaps(box, p));
+    if (covered.length === 0) return members;
+    if (covered.some(p => grouped.has(p)) || members.length + covered.length > maxCellsPerTile) return null;
+    members = [...members, ...covered];
+  }
+}
+
+type Rect = { x: number; y: number; width: number; height: number };
+
+function overlaps(a: Rect, b: Rect): boolean {
+  return a.x < b.x + b.width && b.x < a.x + a.width && a.y < b.y + b.height && b.y < a.y + a.height;
+}
+
+/**
+ * Get the bounding rectangle of a set of cells
+ */
+export function boundingBox(positions: CellPosition[]): { x: number; y: number; width: number; height: number } {
+  const minX = Math.min(...positions.map(p => p.x));
+  const minY = Math.min(...positions.map(p => p.y));
+  const maxX = Math.max(...positions.map(p => p.x + p.width));
+  const maxY = Math.max(...positions.map(p => p.y + p.height));
+
+  return { x: minX, y: minY, width: maxX - minX, height: maxY - minY };
+}
+
+/**
+ * Find the clean cut (on either axis) that splits the cells most evenly
+ */
+function findBestCut(positions: CellPosition[]): { before: CellPosition[]; after: CellPosition[] } | null {
+  let best: { before: CellPosition[]; after: CellPosition[] } | null = null;
+  let bestImbalance = Infinity;
+
+  for (const axis of ["x", "y"] as const) {
+    const size = axis === "x" ? "width" : "height";
+    const cuts = [...new Set(positions.map(p => p[axis] + p[size]))];
+
+    for (const cut of cuts) {
+      const before = positions.filter(p => p[axis] + p[size] <= cut);
+      const after = positions.filter(p => p[axis] >= cut);
+
+      // Clean cut: every cell lies entirely on one side
+      if (before.length === 0 || after.length === 0) continue;
+      if (before.length + after.length !== positions.length) continue;
+
+      const imbalance = Math.abs(before.length - after.length);
+      if (imbalance < bestImbalance) {
+        bestImbalance = imbalance;
+        best = { before, after };
+      }
+    }
+  }
+
+  return best;
+}
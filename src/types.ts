@@ -3,7 +3,52 @@ export interface MediaItem {
   type: "video" | "image";
   duration?: number; // For images, how long to display (seconds)
   loop?: boolean; // Whether to loop videos
+  loopMode?: LoopMode; // How a looping clip repeats (default: restart)
   info?: MediaInfo; // Media info for scaling decisions
+  fit?: FitMode; // How the media fills its cell (overrides layout.fit)
+  focus?: FocusPoint; // Point to keep in frame when cropping in cover mode
+  volume?: number; // Audio volume multiplier when mixing (default: 1)
+  start?: number; // Seconds into the source to start playing from (default: 0)
+  end?: number; // Seconds into the source to stop playing at (default: end of file)
+  speed?: number; // Playback speed multiplier, e.g. 0.5 for slow motion (default: 1)
+  motion?: MotionConfig; // Pan/zoom motion for still images (overrides the collage motion)
+  effects?: ShaderSpec[]; // Shaders and color grading applied to this cell only, e.g. grayscale, blur
+  slot?: number; // Cell whose playlist this item joins (slots mode, 0-based)
+  weight?: number; // Relative cell size, e.g. 2 for twice the area (dynamic, treemap and pack layouts)
+  pin?: CellPin; // Where the cell is placed, e.g. "top-left", "center" or { "row": 0, "column": 2 }
+}
+
+export type PinAnchor =
+  | "top-left"
+  | "top"
+  | "top-right"
+  | "left"
+  | "center"
+  | "right"
+  | "bottom-left"
+  | "bottom"
+  | "bottom-right";
+
+// An anchor on the canvas, or a cell by row and column (0-based)
+export type CellPin = PinAnchor | { row: number; column: number };
+
+export type FitMode = "cover" | "contain" | "stretch";
+
+// restart: play again from the start; pingpong: play forwards then backwards;
+// freeze: hold the last frame; none: show the background after the clip ends
+export type LoopMode = "restart" | "pingpong" | "freeze" | "none";
+
+export type MotionType = "zoom-in" | "zoom-out" | "pan-left" | "pan-right" | "random";
+
+export interface MotionConfig {
+  type: MotionType;
+  intensity?: number; // Zoom amount, e.g. 0.15 zooms to 115% (default: 0.15)
+  seed?: number; // Seed for random motion (default: 0)
+}
+
+export interface FocusPoint {
+  x: number; // 0 = left edge, 1 = right edge
+  y: number; // 0 = top edge, 1 = bottom edge
 }
 
 export interface CollageConfig {
@@ -15,19 +60,86 @@ export interface CollageConfig {
   layout: LayoutConfig;
   media: MediaItem[];
   background?: string; // Background color (default: black)
-  shader?: string; // Shader effect to apply (vignette, bloom, chromatic, noise, crt, dreamy)
+  shader?: string | ShaderSpec[]; // Shader effect or chain, e.g. "vignette:angle=0.6,noise" (see ShaderType)
   gpu?: boolean; // Hybrid mode: CPU filters + NVENC encoding
   gpuExperimental?: boolean; // Experimental: Full CUDA pipeline (unreliable)
   preset?: "ultrafast" | "fast" | "balanced" | "quality" | "best"; // Encoding preset
+  codec?: "h264" | "hevc" | "vp9" | "av1" | "gif" | "webp" | "png"; // Output codec (default: from output extension)
+  audio?: AudioConfig; // Soundtrack settings (default: silent)
+  keepTemp?: boolean; // Keep the temp workspace after the run (for debugging)
+  motion?: MotionConfig; // Pan/zoom motion for all still images
+  seamless?: boolean; // Crossfade each cell's end into its start so the output loops without a jump
+  slots?: SlotsConfig; // Fixed number of cells, each playing a queue of media
+  scenes?: SceneConfig[]; // Arrangements shown one after another (duration becomes their total)
+  transition?: TransitionConfig; // Default transition between scenes (default: 1s crossfade)
+}
+
+export type SlotOrder = "round-robin" | "random" | "assigned";
+
+export interface SlotsConfig {
+  count: number; // Number of cells in the layout
+  order?: SlotOrder; // How media is dealt to cells (default: round-robin; assigned uses each item's slot)
+  seed?: number; // Seed for random order (default: 0)
+  itemDuration?: number; // Longest time one item plays (default: full clip; 5 seconds for images)
+  crossfade?: number; // Seconds between queued items (default: 0, a cut)
 }
 
-export type ShaderType = "vignette" | "bloom" | "chromatic" | "noise" | "crt" | "dreamy";
+export interface SceneConfig {
+  duration: number; // Seconds this scene is on screen
+  media: MediaItem[]; // Media shown in this scene (config indices or items, resolved on load)
+  layout?: Partial<LayoutConfig>; // Overrides for the collage layout
+  transition?: TransitionConfig; // How this scene replaces the previous one
+}
+
+// morph: cells shared by both scenes move and resize to their new place
+export type TransitionType = "crossfade" | "wipe" | "slide" | "cut" | "morph";
+
+export type Easing = "linear" | "ease-in" | "ease-out" | "ease-in-out";
+
+export interface TransitionConfig {
+  type: TransitionType;
+  duration?: number; // Seconds (default: 1, ignored for cut)
+  easing?: Easing; // Speed curve of morph movement (default: ease-in-out)
+}
+
+export type AudioMode = "none" | "source" | "mix" | "track";
+
+export interface AudioConfig {
+  mode: AudioMode;
+  from?: number; // Media index to take audio from (source mode)
+  track?: string; // Background music file, looped or trimmed to duration (track mode)
+  volume?: number; // Volume multiplier for the source or track (default: 1)
+  fadeOut?: number; // Fade-out length in seconds at the end (default: 2 for track mode)
+}
+
+export interface ShaderSpec {
+  name: string;
+  params?: Record<string, number>; // Overrides for the shader's declared parameters
+}
+
+export type ShaderType =
+  | "vignette"
+  | "bloom"
+  | "chromatic"
+  | "noise"
+  | "crt"
+  | "dreamy"
+  | "grayscale"
+  | "sepia"
+  | "brightness"
+  | "contrast"
+  | "saturation"
+  | "blur"
+  | "hflip";
 
 export interface LayoutConfig {
-  type: "grid" | "custom" | "dynamic" | "masonry" | "treemap" | "pack";
+  type: "grid" | "custom" | "dynamic" | "masonry" | "treemap" | "pack" | "auto";
   columns?: number;
   rows?: number;
   gap?: number;
+  fit?: FitMode; // Default fit mode for all cells (default: stretch)
+  preserveOrder?: boolean; // Keep media in list order instead of grouping by aspect ratio (dynamic layout)
+  aspectTolerance?: number; // How far cells may stray from their media's aspect ratio, e.g. 0.15 (pack layout)
   positions?: CellPosition[]; // For custom layouts
 }
 
@@ -40,9 +152,15 @@ export interface CellPosition {
 }
 
 export interface MediaInfo {
-  width: number;
-  height: number;
+  width: number; // Coded width as stored in the stream
+  height: number; // Coded height as stored in the stream
+  displayWidth?: number; // Width as shown, after rotation and sample aspect ratio
+  displayHeight?: number; // Height as shown, after rotation and sample aspect ratio
+  rotation?: number; // Clockwise display rotation in degrees (0, 90, 180, 270)
+  sampleAspectRatio?: number; // Pixel aspect ratio (1 for square pixels)
   duration: number;
   hasAudio: boolean;
   fps: number;
+  frameCount?: number; // Number of frames (images only)
+  animated?: boolean; // Image with more than one frame (animated GIF/WebP)
 }
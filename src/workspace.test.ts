@@ -0,0 +1,47 @@
+import { test, expect, describe } from "bun:test";
+import { existsSync, rmSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import path from "path";
+import { createWorkspace } from "./workspace";
+
+describe("Workspace", () => {
+  test("creates a directory under the system temp dir", () => {
+    const workspace = createWorkspace();
+    expect(existsSync(workspace.dir)).toBe(true);
+    expect(workspace.dir.startsWith(tmpdir())).toBe(true);
+    expect(path.dirname(workspace.file("tile_1.mkv"))).toBe(workspace.dir);
+    workspace.cleanup();
+  });
+
+  test("removes the directory and its files on cleanup", () => {
+    const workspace = createWorkspace();
+    writeFileSync(workspace.file("tile_1.mkv"), "data");
+    workspace.cleanup();
+    expect(existsSync(workspace.dir)).toBe(false);
+  });
+
+  test("keeps files when requested", () => {
+    const workspace = createWorkspace({ keep: true });
+    writeFileSync(workspace.file("graph.txt"), "data");
+    workspace.cleanup();
+    expect(existsSync(workspace.file("graph.txt"))).toBe(true);
+    rmSync(workspace.dir, { recursive: true, force: true });
+  });
+
+  test("removes its signal handlers on cleanup", () => {
+    const before = process.listenerCount("SIGINT");
+    const workspace = createWorkspace();
+    expect(process.listenerCount("SIGINT")).toBe(before + 1);
+    workspace.cleanup();
+    expect(process.listenerCount("SIGINT")).toBe(before);
+  });
+
+  test("kills tracked processes on cleanup", async () => {
+    const workspace = createWorkspace();
+    const proc = Bun.spawn(["sleep", "30"]);
+    workspace.track(proc);
+    workspace.cleanup();
+    await proc.exited;
+    expect(proc.killed).toBe(true);
+  });
+});
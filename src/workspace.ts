@@ -0,0 +1,85 @@
+/**
+ * Per-run temporary workspace
+ *
+ * Intermediate files (tiles, scripts) live in a directory under the system
+ * temp dir. The directory is removed when the run finishes, fails, or is
+ * interrupted with SIGINT/SIGTERM, and any running ffmpeg child is killed.
+ */
+
+import { mkdtempSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import path from "path";
+import type { Subprocess } from "bun";
+
+export interface Workspace {
+  dir: string;
+  keep: boolean;
+  file: (name: string) => string;
+  track: (proc: Subprocess) => void;
+  untrack: (proc: Subprocess) => void;
+  cleanup: () => void;
+}
+
+const SIGNAL_EXIT_CODES = {
+  SIGINT: 130,
+  SIGTERM: 143,
+} as const;
+
+/**
+ * Create a workspace directory and install signal handlers for it.
+ * With keep set, files are left in place for debugging.
+ */
+export function createWorkspace(options: { keep?: boolean; log?: (message: string) => void } = {}): Workspace {
+  const keep = options.keep || false;
+  const log = options.log ?? console.log;
+  const dir = mkdtempSync(path.join(tmpdir(), "video-collage-"));
+  const children = new Set<Subprocess>();
+  let cleanedUp = false;
+
+  const cleanup = () => {
+    if (cleanedUp) return;
+    cleanedUp = true;
+
+    for (const child of children) {
+      try {
+        child.kill();
+      } catch {
+        // Already exited
+      }
+    }
+    children.clear();
+
+    for (const [signal, handler] of handlers) {
+      process.off(signal, handler);
+    }
+
+    if (keep) {
+      log(`\nKept temp files in: ${dir}`);
+    } else {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  };
+
+  const handlers = (Object.keys(SIGNAL_EXIT_CODES) as (keyof typeof SIGNAL_EXIT_CODES)[]).map(signal => {
+    const handler = () => {
+      console.error(`\n\nInterrupted (${signal}), cleaning up...`);
+      cleanup();
+      process.exit(SIGNAL_EXIT_CODES[signal]);
+    };
+    process.on(signal, handler);
+    return [signal, handler] as const;
+  });
+
+  return {
+    dir,
+    keep,
+    file: (name: string) => path.join(dir, name),
+    track: (proc: Subprocess) => {
+      children.add(proc);
+    },
+    untrack: (proc: Subprocess) => {
+      children.delete(proc);
+    },
+    cleanup,
+  };
+}